@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { usePhotoProcessor } from './usePhotoProcessor'
+import * as db from '~/utils/db'
+import * as metadata from '~/utils/metadata'
+import { decodeImage, ImageDecodeError } from '~/utils/image-decoder'
+import { segmentSessionEvents } from '~/utils/event-detection'
+import type { Photo, ProcessingSession } from '~/utils/types'
+
+vi.mock('~/utils/db', () => ({
+  savePhoto: vi.fn(),
+  saveSession: vi.fn(),
+  getPhotoByHash: vi.fn(),
+  getSession: vi.fn(),
+  getLastSession: vi.fn(),
+  getPhotosBySession: vi.fn(),
+  countPhotosBySession: vi.fn(),
+}))
+
+vi.mock('~/utils/metadata', () => ({
+  calculateHash: vi.fn(),
+  extractMetadata: vi.fn(),
+}))
+
+vi.mock('~/utils/event-detection', () => ({ segmentSessionEvents: vi.fn() }))
+
+vi.mock('~/utils/image-decoder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/utils/image-decoder')>()),
+  decodeImage: vi.fn(),
+}))
+
+// No workers in tests, photos are saved without face detection
+vi.mock('~/utils/worker-pool', () => ({ createWorkerPool: vi.fn() }))
+
+function file(name: string) {
+  return new File([new Uint8Array(20 * 1024)], name, { type: 'image/jpeg', lastModified: 1 })
+}
+
+const HOUR = 60 * 60 * 1000
+
+const keyOf = (f: File) => `${f.name}:${f.size}:${f.lastModified}`
+
+// Six files: one batch of five, then one more
+const files = ['a', 'b', 'bad', 'c', 'd', 'e'].map((n) => file(`${n}.jpg`))
+
+describe('usePhotoProcessor', () => {
+  const processor = usePhotoProcessor()
+  let sessions: Map<string, ProcessingSession>
+  let photos: Photo[]
+
+  const lastSaved = () => [...sessions.values()][0]!
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    processor.currentSession.value = null
+    sessions = new Map()
+    photos = []
+
+    vi.mocked(db.saveSession).mockImplementation(async (s: ProcessingSession) => {
+      sessions.set(s.id, structuredClone(s))
+      return s.id
+    })
+    vi.mocked(db.getSession).mockImplementation(async (id: string) =>
+      structuredClone(sessions.get(id)),
+    )
+    vi.mocked(db.savePhoto).mockImplementation(async (p: Photo) => {
+      photos.push(p)
+      return p.id
+    })
+    vi.mocked(db.getPhotosBySession).mockImplementation(async () => photos)
+    vi.mocked(db.countPhotosBySession).mockImplementation(async () => photos.length)
+    vi.mocked(db.getPhotoByHash).mockResolvedValue(undefined)
+
+    vi.mocked(metadata.calculateHash).mockImplementation(async (f: File) => f.name)
+    vi.mocked(metadata.extractMetadata).mockResolvedValue({} as unknown as metadata.ImageMetadata)
+    vi.mocked(decodeImage).mockImplementation(async (f: File) => {
+      if (f.name === 'bad.jpg') throw new ImageDecodeError('画像を読み込めませんでした')
+      return f
+    })
+  })
+
+  // Requests a stop while the first file of the run is being read
+  const stopDuringFirstBatch = (stop: () => unknown) => {
+    vi.mocked(metadata.calculateHash).mockImplementationOnce(async (f: File) => {
+      stop()
+      return f.name
+    })
+  }
+
+  it('should pause after the batch in flight and keep only finished files as done', async () => {
+    stopDuringFirstBatch(processor.pauseProcessing)
+
+    await processor.processFiles(files)
+
+    const session = lastSaved()
+    expect(session.status).toBe('paused')
+    expect(processor.isProcessing.value).toBe(false)
+    expect(photos.map((p) => p.name)).toEqual(['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg'])
+    // The failed file is retried on resume
+    expect(session.processedFileKeys).toEqual(
+      ['a', 'b', 'c', 'd'].map((n) => keyOf(file(`${n}.jpg`))),
+    )
+    expect(processor.failedFiles.value.map((f) => f.name)).toEqual(['bad.jpg'])
+  })
+
+  it('should resume with only the files not done yet', async () => {
+    stopDuringFirstBatch(processor.pauseProcessing)
+    await processor.processFiles(files)
+    vi.mocked(metadata.calculateHash).mockClear()
+    vi.mocked(decodeImage).mockImplementation(async (f: File) => f)
+
+    await processor.resumeProcessing(files)
+
+    const read = vi.mocked(metadata.calculateHash).mock.calls.map(([f]) => f.name)
+    expect(read).toEqual(['bad.jpg', 'e.jpg'])
+    const session = lastSaved()
+    expect(session.status).toBe('completed')
+    expect(session.totalFiles).toBe(6)
+    expect(session.processedFileKeys).toBeUndefined()
+    expect(processor.failedFiles.value).toEqual([])
+  })
+
+  it('should only resume a paused session', async () => {
+    await processor.resumeProcessing(files)
+    expect(metadata.calculateHash).not.toHaveBeenCalled()
+  })
+
+  it('should finish a cancelled run after the batch in flight', async () => {
+    stopDuringFirstBatch(() => processor.cancelProcessing())
+
+    await processor.processFiles(files)
+
+    const session = lastSaved()
+    expect(session.status).toBe('completed')
+    expect(session.totalFiles).toBe(4)
+    expect(photos.map((p) => p.name)).not.toContain('e.jpg')
+    expect(segmentSessionEvents).toHaveBeenCalledWith(session.id)
+  })
+
+  it('should finish a paused session when cancelled', async () => {
+    stopDuringFirstBatch(processor.pauseProcessing)
+    await processor.processFiles(files)
+
+    await processor.cancelProcessing()
+
+    expect(lastSaved().status).toBe('completed')
+    expect(processor.currentSession.value?.status).toBe('completed')
+    expect(segmentSessionEvents).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give photos added to a session the clock correction of their camera', async () => {
+    const canon = { make: 'Canon', model: 'EOS R6', serial: '111' }
+    sessions.set('session-1', {
+      id: 'session-1',
+      folderName: 'Trip',
+      totalFiles: 1,
+      processedCount: 1,
+      status: 'completed',
+      cameraClockOffsets: { 'Canon|EOS R6|111': -HOUR },
+      createdAt: 0,
+      updatedAt: 0,
+    })
+    vi.mocked(metadata.extractMetadata).mockResolvedValue({
+      timestamp: 10 * HOUR,
+      ...canon,
+    } as unknown as metadata.ImageMetadata)
+
+    await processor.processFiles([file('f.jpg')], 'session-1')
+
+    expect(photos[0]).toMatchObject({ timestamp: 9 * HOUR, originalTimestamp: 10 * HOUR })
+  })
+
+  describe('restoreSession', () => {
+    const stored = (status: ProcessingSession['status']): ProcessingSession => ({
+      id: 'session-1',
+      folderName: 'Trip',
+      totalFiles: 10,
+      processedCount: 4,
+      status,
+      createdAt: 0,
+      updatedAt: 0,
+    })
+
+    it('should turn a run cut off by closing the tab into a paused one', async () => {
+      vi.mocked(db.getLastSession).mockResolvedValue(stored('processing'))
+
+      await processor.restoreSession()
+
+      expect(processor.currentSession.value?.status).toBe('paused')
+      expect(db.saveSession).toHaveBeenCalledWith(expect.objectContaining({ status: 'paused' }))
+    })
+
+    it('should restore a completed session as it is', async () => {
+      vi.mocked(db.getLastSession).mockResolvedValue(stored('completed'))
+
+      await processor.restoreSession()
+
+      expect(processor.currentSession.value?.status).toBe('completed')
+      expect(db.saveSession).not.toHaveBeenCalled()
+    })
+  })
+})
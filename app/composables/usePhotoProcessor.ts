@@ -1,7 +1,24 @@
 import { ref } from 'vue'
-import type { Photo, ProcessingSession } from '~/utils/types'
+import type { Photo, PhotoExposure, ProcessingSession } from '~/utils/types'
 import { extractMetadata, calculateHash } from '~/utils/metadata'
-import { savePhoto, saveSession, getPhotoByHash, getSession, getPhotosBySession } from '~/utils/db'
+import {
+  savePhoto,
+  saveSession,
+  getPhotoByHash,
+  getSession,
+  getLastSession,
+  getPhotosBySession,
+  countPhotosBySession,
+} from '~/utils/db'
+import { segmentSessionEvents } from '~/utils/event-detection'
+import { withSessionClockOffset } from '~/utils/camera-clock'
+import { decodeImage, detectImageFormat, ImageDecodeError } from '~/utils/image-decoder'
+import { createWorkerPool, type WorkerPool, type WorkerPoolProgress } from '~/utils/worker-pool'
+
+export interface FileFailure {
+  name: string
+  reason: string // User-facing message
+}
 
 // Singleton State
 const isProcessing = ref(false)
@@ -10,6 +27,9 @@ const total = ref(0)
 const currentSession = ref<ProcessingSession | null>(null)
 const faceModel = ref<'ssd' | 'tiny'>('ssd') // Default to SSD
 const processingStatus = ref('')
+const failedFiles = ref<FileFailure[]>([]) // Files of the last run that couldn't be read
+const stopRequest = ref<'pause' | 'cancel' | null>(null) // Honoured after the current batch
+const detectionProgress = ref<WorkerPoolProgress | null>(null) // Across all workers
 
 // Initialize from localStorage if client-side
 if (import.meta.client) {
@@ -19,61 +39,52 @@ if (import.meta.client) {
   }
 }
 
-let worker: Worker | null = null
-const pendingRequests = new Map<
-  string,
-  { resolve: (val: unknown) => void; reject: (err: unknown) => void }
->()
+// Detection, face crops and thumbnails must all see the same upright pixels
+const UPRIGHT_BITMAP: ImageBitmapOptions = { imageOrientation: 'from-image' }
+
+// Each worker loads its own copy of the models, so the pool stays small
+const MAX_WORKERS = 4
+const DETECT_TIMEOUT_MS = 60_000 // Includes the model download on a fresh worker
+const DETECT_RETRIES = 1
+
+let pool: WorkerPool | null = null
+
+const modelMessage = (type: 'INIT' | 'SET_MODEL', id: string) => ({
+  type,
+  id,
+  payload: { useSsd: faceModel.value === 'ssd' },
+})
+
+// One worker per core, leaving one for the page
+const poolSize = () => Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
 
 const initWorker = () => {
-  if (worker) return
+  if (pool) return
   try {
-    console.log('Initializing worker...')
-    // Use relative path for worker to avoid alias issues in some environments,
-    // or rely on Vite's efficient handling.
-    // Assuming utils is alias '~', but specific to build setup.
-    // Best to use relative path if possible: '../utils/face-worker.ts'
-    worker = new Worker(new URL('../utils/face-worker-v2.ts', import.meta.url), { type: 'module' })
-
-    worker.onmessage = (e) => {
-      console.log('Worker message received:', e.data.type)
-      const { type, id, payload, error } = e.data
-      if (type === 'LOADING_PROGRESS') {
-        processingStatus.value = payload.message
-      } else if (type === 'INIT_SUCCESS') {
-        console.log('Worker initialized successfully')
-      } else if (type === 'SET_MODEL_SUCCESS') {
-        console.log('Worker model switched successfully')
-      } else if (type === 'DETECT_SUCCESS') {
-        const req = pendingRequests.get(id)
-        if (req) {
-          req.resolve(payload)
-          pendingRequests.delete(id)
+    const size = poolSize()
+    console.log(`Initializing ${size} workers with model:`, faceModel.value)
+    pool = createWorkerPool({
+      size,
+      // Use relative path for worker to avoid alias issues in some environments
+      createWorker: () =>
+        new Worker(new URL('../utils/face-worker-v2.ts', import.meta.url), { type: 'module' }),
+      initMessage: () => modelMessage('INIT', 'init'),
+      timeoutMs: DETECT_TIMEOUT_MS,
+      maxRetries: DETECT_RETRIES,
+      maxQueued: size * 2,
+      onMessage: ({ type, payload }) => {
+        if (type === 'LOADING_PROGRESS') {
+          processingStatus.value = (payload as { message: string }).message
+        } else if (type === 'INIT_SUCCESS') {
+          console.log('Worker initialized successfully')
+        } else if (type === 'SET_MODEL_SUCCESS') {
+          console.log('Worker model switched successfully')
         }
-      } else if (type === 'ERROR') {
-        console.error('Worker reported error:', error)
-        const req = pendingRequests.get(id)
-        if (req) {
-          req.reject(error)
-          pendingRequests.delete(id)
-        } else {
-          console.error('Worker error (unhandled request):', error)
-        }
-      }
-    }
-
-    worker.onerror = (e) => {
-      console.error('Worker error event:', e)
-    }
-
-    console.log('Sending INIT message to worker with model:', faceModel.value)
-    worker.postMessage({
-      type: 'INIT',
-      id: 'init',
-      payload: { useSsd: faceModel.value === 'ssd' },
+      },
+      onProgress: (p) => (detectionProgress.value = p),
     })
   } catch (e) {
-    console.error('Failed to init worker', e)
+    console.error('Failed to init worker pool', e)
   }
 }
 
@@ -83,22 +94,47 @@ const setFaceModel = (model: 'ssd' | 'tiny') => {
     localStorage.setItem('face-model', model)
   }
 
-  if (worker) {
+  if (pool) {
     console.log('Switching worker model to:', model)
-    worker.postMessage({
-      type: 'SET_MODEL',
-      id: 'config',
-      payload: { useSsd: model === 'ssd' },
-    })
+    pool.broadcast(modelMessage('SET_MODEL', 'config'))
   }
 }
 
-const detectFacesInWorker = async (photoId: string, imageBitmap: ImageBitmap) => {
-  if (!worker) initWorker() // Ensure worker is init
-  return new Promise<unknown>((resolve, reject) => {
-    pendingRequests.set(photoId, { resolve, reject })
-    worker!.postMessage({ type: 'DETECT', id: photoId, payload: { imageBitmap } }, [imageBitmap])
+// Each attempt gets a fresh bitmap, since the previous one was transferred to its worker
+const detectFacesInWorker = (source: Blob) =>
+  pool!.run<unknown>('DETECT', async () => {
+    let imageBitmap: ImageBitmap
+    try {
+      imageBitmap = await createImageBitmap(source, UPRIGHT_BITMAP)
+    } catch (err) {
+      throw new ImageDecodeError('画像を読み込めませんでした', { cause: err })
+    }
+    return { payload: { imageBitmap }, transfer: [imageBitmap] }
   })
+
+const MIN_SIZE = 10 * 1024 // 10KB
+
+const relativePathOf = (file: File) =>
+  (file as unknown as { webkitRelativePath?: string }).webkitRelativePath || file.name
+
+const folderNameOf = (files: FileList | File[]) =>
+  (files[0] as unknown as { webkitRelativePath?: string }).webkitRelativePath?.split('/')[0] ||
+  'Generic Upload'
+
+// Identifies a file across page loads without reading it
+const fileKeyOf = (file: File) => `${relativePathOf(file)}:${file.size}:${file.lastModified}`
+
+const imageFilesOf = (files: FileList | File[]) =>
+  Array.from(files).filter((f) => detectImageFormat(f) !== null && f.size >= MIN_SIZE)
+
+// Hashes of the photos already saved in a session, so they're not read twice
+const savedHashesOf = async (sessionId: string) => {
+  const hashes = new Set<string>()
+  const existingPhotos = await getPhotosBySession(sessionId)
+  existingPhotos.forEach((p) => {
+    if (p.hash) hashes.add(p.hash)
+  })
+  return hashes
 }
 
 export const usePhotoProcessor = () => {
@@ -106,11 +142,7 @@ export const usePhotoProcessor = () => {
     if (isProcessing.value) return
     initWorker()
 
-    // ... (rest of logic similar, updated for faces)
-    const MIN_SIZE = 10 * 1024 // 10KB
-    const fileArray = Array.from(files).filter(
-      (f) => f.type.startsWith('image/') && f.size >= MIN_SIZE,
-    )
+    const fileArray = imageFilesOf(files)
     if (fileArray.length === 0) {
       alert('画像が見つかりません、または全ての画像が10KB未満です。')
       return
@@ -118,9 +150,10 @@ export const usePhotoProcessor = () => {
 
     isProcessing.value = true
     progress.value = 0
+    failedFiles.value = []
 
     let session: ProcessingSession
-    const processedHashesInSession = new Set<string>()
+    let processedHashesInSession = new Set<string>()
 
     if (appendSessionId) {
       // Appending to existing session
@@ -128,10 +161,7 @@ export const usePhotoProcessor = () => {
       if (existingSession) {
         session = existingSession
         // Load existing photos to check for duplicates
-        const existingPhotos = await getPhotosBySession(appendSessionId)
-        existingPhotos.forEach((p) => {
-          if (p.hash) processedHashesInSession.add(p.hash)
-        })
+        processedHashesInSession = await savedHashesOf(appendSessionId)
         session.totalFiles += fileArray.length
         session.status = 'processing'
         session.updatedAt = Date.now()
@@ -148,10 +178,7 @@ export const usePhotoProcessor = () => {
       const sessionId = `session-${Date.now()}`
       session = {
         id: sessionId,
-        folderName:
-          (files[0] as unknown as { webkitRelativePath?: string }).webkitRelativePath?.split(
-            '/',
-          )[0] || 'Generic Upload',
+        folderName: folderNameOf(files),
         totalFiles: fileArray.length,
         processedCount: 0,
         status: 'processing',
@@ -163,21 +190,87 @@ export const usePhotoProcessor = () => {
 
     currentSession.value = session
     await saveSession(session)
+    await runFiles(session, fileArray, processedHashesInSession)
+  }
+
+  /**
+   * Continues a paused or interrupted session. Browsers can't reopen a folder on their
+   * own, so the user picks the same folder again; files finished before are skipped by
+   * their path and, if renamed, by the hashes already saved.
+   */
+  const resumeProcessing = async (files: FileList | File[]) => {
+    if (isProcessing.value || currentSession.value?.status !== 'paused') return
+    const session = await getSession(currentSession.value.id)
+    if (!session) return
+
+    if (
+      folderNameOf(files) !== session.folderName &&
+      !confirm(
+        `前回とちがうフォルダのようです（前回: ${session.folderName}）。このまま続けますか？`,
+      )
+    ) {
+      return
+    }
 
-    const BATCH_SIZE = 5
+    initWorker()
+    const doneKeys = new Set(session.processedFileKeys ?? [])
+    const fileArray = imageFilesOf(files).filter((f) => !doneKeys.has(fileKeyOf(f)))
+
+    isProcessing.value = true
+    failedFiles.value = []
+    const processedHashesInSession = await savedHashesOf(session.id)
+
+    session.totalFiles = session.processedCount + fileArray.length
+    session.status = 'processing'
+    session.updatedAt = Date.now()
+    total.value = session.totalFiles
+    progress.value = session.processedCount
+
+    currentSession.value = session
+    await saveSession(session)
+    await runFiles(session, fileArray, processedHashesInSession)
+  }
+
+  // Pausing keeps the session resumable, it stops after the batch in flight
+  const pauseProcessing = () => {
+    if (isProcessing.value) stopRequest.value = 'pause'
+  }
+
+  // Stops for good, keeping the photos read so far
+  const cancelProcessing = async () => {
+    if (isProcessing.value) {
+      stopRequest.value = 'cancel'
+      return
+    }
+    if (currentSession.value?.status !== 'paused') return
+    const session = await getSession(currentSession.value.id)
+    if (session) await finishSession(session)
+  }
+
+  // Batches of files, saving per-file progress after each batch so the run can resume
+  const runFiles = async (
+    session: ProcessingSession,
+    fileArray: File[],
+    processedHashesInSession: Set<string>,
+  ) => {
+    const doneKeys = new Set(session.processedFileKeys ?? [])
+    // Enough files in flight to keep every worker busy
+    const BATCH_SIZE = Math.max(5, (pool?.size ?? 1) * 2)
 
     for (let i = 0; i < fileArray.length; i += BATCH_SIZE) {
+      if (stopRequest.value) break
       const batch = fileArray.slice(i, i + BATCH_SIZE)
       await Promise.all(
         batch.map(async (file) => {
+          let hash: string | undefined
+          let failed = false
           try {
-            const hash = await calculateHash(file)
+            hash = await calculateHash(file)
 
             // 1. Atomically check and register hash to prevent race conditions
             //    within the same batch (Promise.all processes files in parallel)
             if (processedHashesInSession.has(hash)) {
               console.log('Skipping duplicate photo in current session:', file.name)
-              progress.value++
               return
             }
             processedHashesInSession.add(hash)
@@ -194,7 +287,6 @@ export const usePhotoProcessor = () => {
               if (modelMatch) {
                 if (existing.sessionId === session.id) {
                   console.log('Skipping duplicate photo in same session (DB check):', file.name)
-                  progress.value++
                   return
                 } else {
                   console.log(
@@ -202,20 +294,21 @@ export const usePhotoProcessor = () => {
                     file.name,
                   )
                   // Reuse existing analysis data but create new photo record for this session
-                  const reusedPhoto: Photo = {
-                    ...existing,
-                    id: crypto.randomUUID(),
-                    sessionId: session.id,
-                    name: file.name, // Use current file name just in case
-                    relativePath:
-                      (file as unknown as { webkitRelativePath?: string }).webkitRelativePath ||
-                      file.name,
-                    // Ensure we keep the hash & model
-                    hash,
-                    detectionModel: existing.detectionModel,
-                  }
+                  // The clock correction is this session's, not the one it was first read in
+                  const reusedPhoto: Photo = withSessionClockOffset(
+                    {
+                      ...existing,
+                      id: crypto.randomUUID(),
+                      sessionId: session.id,
+                      name: file.name, // Use current file name just in case
+                      relativePath: relativePathOf(file),
+                      // Ensure we keep the hash & model
+                      hash,
+                      detectionModel: existing.detectionModel,
+                    },
+                    session,
+                  )
                   await savePhoto(reusedPhoto)
-                  progress.value++
                   return
                 }
               } else {
@@ -226,117 +319,125 @@ export const usePhotoProcessor = () => {
               }
             }
 
+            // HEIC is converted and RAW files yield their embedded JPEG preview
+            const source = await decodeImage(file, meta.orientation)
+
             const photo: Photo = {
               id: crypto.randomUUID(),
               sessionId: session.id,
               name: file.name,
-              relativePath:
-                (file as unknown as { webkitRelativePath?: string }).webkitRelativePath ||
-                file.name,
+              relativePath: relativePathOf(file),
               timestamp: meta.timestamp,
               dateStr: meta.dateStr,
+              timezoneOffset: meta.offsetMinutes,
+              cameraMake: meta.make,
+              cameraModel: meta.model,
+              cameraSerial: meta.serial,
               hash,
               detectionModel: faceModel.value,
             }
 
-            if (worker) {
-              // Create bitmap from the File directly.
-              // Note: If extractMetadata reads the file, it shouldn't affect subsequent reads if it's a File/Blob (which are immutable/reusable).
-              // However, let's be safe.
-              let bitmap: ImageBitmap | undefined
-              try {
-                bitmap = await createImageBitmap(file)
-              } catch (err) {
-                console.error('Failed to create bitmap for', file.name, err)
+            if (pool) {
+              const detectionResult = (await detectFacesInWorker(source)) as {
+                faces: Array<{
+                  detection: {
+                    _x?: number
+                    _y?: number
+                    _width?: number
+                    _height?: number
+                    x?: number
+                    y?: number
+                    width?: number
+                    height?: number
+                  }
+                  descriptor: Float32Array
+                  score: number
+                  smileScore?: number
+                  panScore?: number
+                  tiltScore?: number
+                  rollScore?: number
+                  eyesOpenScore?: number
+                  sharpnessScore?: number
+                  brightness?: number
+                  completenessScore?: number
+                }>
+                blurScore: number
+                exposure?: PhotoExposure
+                perceptualHash?: string
+                width: number
+                height: number
               }
 
-              if (bitmap) {
-                const detectionResult = (await detectFacesInWorker(photo.id, bitmap)) as {
-                  faces: Array<{
-                    detection: {
-                      _x?: number
-                      _y?: number
-                      _width?: number
-                      _height?: number
-                      x?: number
-                      y?: number
-                      width?: number
-                      height?: number
-                    }
-                    descriptor: Float32Array
-                    score: number
-                    smileScore?: number
-                    panScore?: number
-                    tiltScore?: number
-                  }>
-                  blurScore: number
-                  width: number
-                  height: number
+              if (detectionResult && detectionResult.faces.length > 0) {
+                photo.width = detectionResult.width
+                photo.height = detectionResult.height
+                photo.blurScore = detectionResult.blurScore
+                photo.exposure = detectionResult.exposure
+                photo.perceptualHash = detectionResult.perceptualHash
+
+                // Create a FRESH bitmap from the file for thumbnail cropping
+                let cropBitmap: ImageBitmap | undefined
+                try {
+                  cropBitmap = await createImageBitmap(source, UPRIGHT_BITMAP)
+                } catch (err) {
+                  console.warn('Failed to create crop bitmap for', file.name, err)
                 }
-                // NOTE: bitmap is now neutered (transferred to worker), cannot be used for drawing.
-
-                if (detectionResult && detectionResult.faces.length > 0) {
-                  photo.width = detectionResult.width
-                  photo.height = detectionResult.height
-                  photo.blurScore = detectionResult.blurScore
-
-                  // Create a FRESH bitmap from the file for thumbnail cropping
-                  let cropBitmap: ImageBitmap | undefined
-                  try {
-                    cropBitmap = await createImageBitmap(file)
-                  } catch (err) {
-                    console.warn('Failed to create crop bitmap for', file.name, err)
-                  }
 
-                  photo.faces = await Promise.all(
-                    detectionResult.faces.map(async (face) => {
-                      const { _x, _y, _width, _height } = face.detection
-                      const x = _x ?? face.detection.x ?? 0
-                      const y = _y ?? face.detection.y ?? 0
-                      const width = _width ?? face.detection.width ?? 0
-                      const height = _height ?? face.detection.height ?? 0
-
-                      let blob: Blob | undefined
-                      if (cropBitmap) {
-                        try {
-                          const size = Math.max(width, height)
-                          const canvas = new OffscreenCanvas(size, size)
-                          const ctx = canvas.getContext('2d')
-                          if (ctx) {
-                            ctx.drawImage(cropBitmap, x, y, width, height, 0, 0, size, size)
-                            blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })
-                          }
-                        } catch (err) {
-                          console.warn('Failed to create thumbnail', err)
+                photo.faces = await Promise.all(
+                  detectionResult.faces.map(async (face) => {
+                    const { _x, _y, _width, _height } = face.detection
+                    const x = _x ?? face.detection.x ?? 0
+                    const y = _y ?? face.detection.y ?? 0
+                    const width = _width ?? face.detection.width ?? 0
+                    const height = _height ?? face.detection.height ?? 0
+
+                    let blob: Blob | undefined
+                    if (cropBitmap) {
+                      try {
+                        const size = Math.max(width, height)
+                        const canvas = new OffscreenCanvas(size, size)
+                        const ctx = canvas.getContext('2d')
+                        if (ctx) {
+                          ctx.drawImage(cropBitmap, x, y, width, height, 0, 0, size, size)
+                          blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })
                         }
+                      } catch (err) {
+                        console.warn('Failed to create thumbnail', err)
                       }
+                    }
 
-                      return {
-                        descriptor: face.descriptor,
-                        box: { x, y, width, height },
-                        thumbnail: blob,
-                        score: face.score,
-                        smileScore: face.smileScore,
-                        panScore: face.panScore,
-                        tiltScore: face.tiltScore,
-                      }
-                    }),
-                  )
+                    return {
+                      descriptor: face.descriptor,
+                      box: { x, y, width, height },
+                      thumbnail: blob,
+                      score: face.score,
+                      smileScore: face.smileScore,
+                      panScore: face.panScore,
+                      tiltScore: face.tiltScore,
+                      rollScore: face.rollScore,
+                      eyesOpenScore: face.eyesOpenScore,
+                      sharpnessScore: face.sharpnessScore,
+                      brightness: face.brightness,
+                      completenessScore: face.completenessScore,
+                    }
+                  }),
+                )
 
-                  // Close the crop bitmap
-                  cropBitmap?.close()
-                } else if (detectionResult) {
-                  // Even if no faces, we might want blur score and dimensions
-                  photo.width = detectionResult.width
-                  photo.height = detectionResult.height
-                  photo.blurScore = detectionResult.blurScore
-                }
+                // Close the crop bitmap
+                cropBitmap?.close()
+              } else if (detectionResult) {
+                // Even if no faces, we might want blur score and dimensions
+                photo.width = detectionResult.width
+                photo.height = detectionResult.height
+                photo.blurScore = detectionResult.blurScore
+                photo.exposure = detectionResult.exposure
+                photo.perceptualHash = detectionResult.perceptualHash
               }
             }
 
             // Generate full-photo thumbnail for preview
             try {
-              const thumbBitmap = await createImageBitmap(file)
+              const thumbBitmap = await createImageBitmap(source, UPRIGHT_BITMAP)
               const MAX_THUMB = 320
               const scale = Math.min(
                 MAX_THUMB / thumbBitmap.width,
@@ -356,27 +457,75 @@ export const usePhotoProcessor = () => {
               console.warn('Failed to create photo thumbnail for', file.name, err)
             }
 
-            await savePhoto(photo)
-            progress.value++
+            // Cameras corrected before this upload keep their correction
+            await savePhoto(withSessionClockOffset(photo, session))
           } catch (e) {
+            failed = true
             console.error('Error processing file', file.name, e)
+            failedFiles.value.push({
+              name: file.name,
+              reason: e instanceof ImageDecodeError ? e.message : '処理中にエラーが発生しました',
+            })
+            // Not saved, so it doesn't count and can be retried in a later upload
+            if (hash) processedHashesInSession.delete(hash)
+          } finally {
+            progress.value++
+            // Only saved or skipped files are done, failed ones are read again on resume
+            if (!failed) doneKeys.add(fileKeyOf(file))
           }
         }),
       )
 
       session.processedCount = progress.value
+      session.processedFileKeys = [...doneKeys]
       session.updatedAt = Date.now()
       await saveSession(session)
     }
 
+    const pausing = stopRequest.value === 'pause'
+    stopRequest.value = null
+    if (pausing) {
+      isProcessing.value = false
+      session.status = 'paused'
+      await saveSession(session)
+      currentSession.value = { ...session }
+      return
+    }
+    await finishSession(session)
+  }
+
+  // Brings back the last session; a run cut off by closing the tab resumes like a paused one
+  const restoreSession = async () => {
+    const lastSession = await getLastSession()
+    if (lastSession?.status === 'completed') {
+      console.log('Restoring last session:', lastSession.id)
+      currentSession.value = lastSession
+    } else if (lastSession?.status === 'processing' || lastSession?.status === 'paused') {
+      console.log('Restoring unfinished session:', lastSession.id)
+      lastSession.status = 'paused'
+      await saveSession(lastSession)
+      currentSession.value = lastSession
+    }
+  }
+
+  const finishSession = async (session: ProcessingSession) => {
     isProcessing.value = false
     session.status = 'completed'
     // Ensure totalFiles reflects the actual unique photos
-    session.totalFiles = processedHashesInSession.size
+    session.totalFiles = await countPhotosBySession(session.id)
     session.processedCount = session.totalFiles
+    session.processedFileKeys = undefined
+    session.updatedAt = Date.now()
 
     await saveSession(session)
 
+    // Group the session into events (sports day, excursion...) now that all timestamps are known
+    try {
+      await segmentSessionEvents(session.id)
+    } catch (e) {
+      console.error('Event segmentation failed', e)
+    }
+
     // Explicitly update currentSession to trigger watchers if needed (though nested property change might need deep watch or re-assignment)
     currentSession.value = { ...session }
   }
@@ -390,5 +539,12 @@ export const usePhotoProcessor = () => {
     faceModel,
     setFaceModel,
     processingStatus,
+    failedFiles,
+    stopRequest,
+    detectionProgress,
+    resumeProcessing,
+    pauseProcessing,
+    cancelProcessing,
+    restoreSession,
   }
 }
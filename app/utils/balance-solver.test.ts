@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest'
+import {
+  solveBalancedSelection,
+  type BalanceCandidate,
+  type BalanceSolverOptions,
+} from './balance-solver'
+
+// Exhaustive reference: best objective over all selections within tolerance
+function bruteForce(
+  candidates: BalanceCandidate[],
+  subjectIds: string[],
+  count: number,
+  tolerance: number,
+  penalty = 2,
+  bucketLimits: BalanceSolverOptions['bucketLimits'] = {},
+): number {
+  const target = Math.min(count, candidates.length)
+  let best = -Infinity
+  const visit = (start: number, picked: BalanceCandidate[]) => {
+    if (picked.length === target) {
+      const counts = subjectIds.map((s) => picked.filter((c) => c.subjects.includes(s)).length)
+      const spread = Math.max(...counts) - Math.min(...counts)
+      if (spread > tolerance) return
+      const withinLimits = Object.entries(bucketLimits).every(([dim, byKey]) =>
+        Object.entries(byKey).every(([key, { min = 0, max = Infinity }]) => {
+          const used = picked.filter((c) => c.buckets?.[dim] === key).length
+          return used >= min && used <= max
+        }),
+      )
+      if (!withinLimits) return
+      const value = picked.reduce((sum, c) => sum + c.value, 0)
+      best = Math.max(best, value - penalty * spread)
+      return
+    }
+    for (let i = start; i < candidates.length; i++) visit(i + 1, [...picked, candidates[i]!])
+  }
+  visit(0, [])
+  return best
+}
+
+function objectiveOf(
+  candidates: BalanceCandidate[],
+  ids: string[],
+  subjectIds: string[],
+  penalty = 2,
+): number {
+  const picked = candidates.filter((c) => ids.includes(c.id))
+  const counts = subjectIds.map((s) => picked.filter((c) => c.subjects.includes(s)).length)
+  const value = picked.reduce((sum, c) => sum + c.value, 0)
+  return value - penalty * (Math.max(...counts) - Math.min(...counts))
+}
+
+// Small deterministic PRNG so failures are reproducible
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+describe('balance-solver', () => {
+  const subjects = ['A', 'B', 'C']
+
+  it('should return an empty selection for no candidates', () => {
+    const result = solveBalancedSelection([], subjects, 5, { tolerance: 1 })
+    expect(result.selectedIds).toEqual([])
+    expect(result.optimal).toBe(true)
+  })
+
+  it('should pick the best-valued photos among interchangeable ones', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 1.1 },
+      { id: 'a2', subjects: ['A'], value: 1.5 },
+      { id: 'b1', subjects: ['B'], value: 1.2 },
+      { id: 'b2', subjects: ['B'], value: 1.9 },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 2, { tolerance: 0 })
+
+    expect(result.selectedIds.sort()).toEqual(['a2', 'b2'])
+    expect(result.counts).toEqual(
+      new Map([
+        ['A', 1],
+        ['B', 1],
+      ]),
+    )
+  })
+
+  it('should prove infeasibility', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 1 },
+      { id: 'a2', subjects: ['A'], value: 1 },
+      { id: 'a3', subjects: ['A'], value: 1 },
+      { id: 'b1', subjects: ['B'], value: 1 },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 4, { tolerance: 1 })
+
+    expect(result.feasible).toBe(false)
+    expect(result.optimal).toBe(true)
+    expect(result.selectedIds).toEqual([])
+  })
+
+  it('should respect per-subject bounds instead of the tolerance', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 1 },
+      { id: 'a2', subjects: ['A'], value: 1 },
+      { id: 'a3', subjects: ['A'], value: 1 },
+      { id: 'b1', subjects: ['B'], value: 1 },
+      { id: 'b2', subjects: ['B'], value: 1 },
+      { id: 'b3', subjects: ['B'], value: 1 },
+      { id: 'c1', subjects: ['C'], value: 1 },
+    ]
+
+    const result = solveBalancedSelection(candidates, subjects, 5, {
+      tolerance: 0,
+      bounds: { C: { min: 1, max: 1 } },
+    })
+
+    expect(result.feasible).toBe(true)
+    expect(result.counts).toEqual(
+      new Map([
+        ['A', 2],
+        ['B', 2],
+        ['C', 1],
+      ]),
+    )
+
+    const impossible = solveBalancedSelection(candidates, subjects, 5, {
+      tolerance: 0,
+      bounds: { C: { min: 2 } },
+    })
+    expect(impossible.feasible).toBe(false)
+  })
+
+  it('should cap picks per time bucket', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 2, buckets: { time: 'april' } },
+      { id: 'a2', subjects: ['A'], value: 2, buckets: { time: 'april' } },
+      { id: 'a3', subjects: ['A'], value: 1, buckets: { time: 'june' } },
+      { id: 'b1', subjects: ['B'], value: 2, buckets: { time: 'april' } },
+      { id: 'b2', subjects: ['B'], value: 1, buckets: { time: 'june' } },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 4, {
+      tolerance: 0,
+      bucketLimits: { time: { april: { max: 2 }, june: { max: 2 } } },
+    })
+
+    expect(result.selectedIds.sort()).toEqual(['a1', 'a3', 'b1', 'b2'])
+
+    const impossible = solveBalancedSelection(candidates, ['A', 'B'], 4, {
+      tolerance: 0,
+      bucketLimits: { time: { april: { max: 1 }, june: { max: 2 } } },
+    })
+    expect(impossible.feasible).toBe(false)
+  })
+
+  it('should guarantee a minimum per bucket across dimensions', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 3, buckets: { event: 'sports', time: 'am' } },
+      { id: 'a2', subjects: ['A'], value: 3, buckets: { event: 'sports', time: 'pm' } },
+      { id: 'a3', subjects: ['A'], value: 1, buckets: { event: 'trip', time: 'pm' } },
+      { id: 'b1', subjects: ['B'], value: 3, buckets: { event: 'sports', time: 'am' } },
+      { id: 'b2', subjects: ['B'], value: 1, buckets: { event: 'trip', time: 'am' } },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 2, {
+      tolerance: 0,
+      bucketLimits: { event: { trip: { min: 1 } }, time: { pm: { max: 0 } } },
+    })
+
+    expect(result.selectedIds.sort()).toEqual(['a1', 'b2'])
+
+    const impossible = solveBalancedSelection(candidates, ['A', 'B'], 2, {
+      tolerance: 0,
+      bucketLimits: { event: { trip: { min: 3 } } },
+    })
+    expect(impossible.feasible).toBe(false)
+  })
+
+  it('should keep the initial selection unless it finds a strictly better one', () => {
+    const candidates = [
+      { id: 'a1', subjects: ['A'], value: 1 },
+      { id: 'a2', subjects: ['A'], value: 1 },
+      { id: 'b1', subjects: ['B'], value: 1 },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 2, {
+      tolerance: 0,
+      initialIds: ['a2', 'b1'],
+    })
+
+    expect(result.selectedIds).toEqual(['a2', 'b1'])
+  })
+
+  it('should return the incumbent as near-optimal when the budget runs out', () => {
+    const candidates = [
+      { id: 'ab', subjects: ['A', 'B'], value: 2 },
+      { id: 'a', subjects: ['A'], value: 1 },
+      { id: 'b', subjects: ['B'], value: 1 },
+    ]
+
+    const result = solveBalancedSelection(candidates, ['A', 'B'], 2, {
+      tolerance: 1,
+      maxNodes: 0,
+      initialIds: ['a', 'b'],
+    })
+
+    expect(result.feasible).toBe(true)
+    expect(result.optimal).toBe(false)
+    expect(result.selectedIds).toEqual(['a', 'b'])
+  })
+
+  it('should match exhaustive search on random instances', () => {
+    const random = mulberry32(42)
+    const subsets = [['A'], ['B'], ['C'], ['A', 'B'], ['A', 'C'], ['B', 'C'], ['A', 'B', 'C']]
+
+    for (let trial = 0; trial < 200; trial++) {
+      const size = 3 + Math.floor(random() * 8)
+      const candidates = Array.from({ length: size }, (_, i) => {
+        const subset = subsets[Math.floor(random() * subsets.length)]!
+        return { id: `p${i}`, subjects: subset, value: subset.length + random() }
+      })
+      const count = 1 + Math.floor(random() * size)
+      const tolerance = Math.floor(random() * 3)
+
+      const expected = bruteForce(candidates, subjects, count, tolerance)
+      const result = solveBalancedSelection(candidates, subjects, count, { tolerance })
+
+      expect(result.optimal).toBe(true)
+      expect(result.feasible).toBe(expected > -Infinity)
+      if (result.feasible) {
+        expect(result.selectedIds).toHaveLength(Math.min(count, size))
+        expect(objectiveOf(candidates, result.selectedIds, subjects)).toBeCloseTo(expected, 9)
+      }
+    }
+  })
+
+  it('should match exhaustive search with bucket limits', () => {
+    const random = mulberry32(7)
+    const subsets = [['A'], ['B'], ['A', 'B']]
+    const limit = () => {
+      const min = Math.floor(random() * 2)
+      return { min, max: min + Math.floor(random() * 3) }
+    }
+
+    for (let trial = 0; trial < 200; trial++) {
+      const size = 3 + Math.floor(random() * 7)
+      const candidates = Array.from({ length: size }, (_, i) => {
+        const subset = subsets[Math.floor(random() * subsets.length)]!
+        const buckets = {
+          event: `e${Math.floor(random() * 3)}`,
+          time: `t${Math.floor(random() * 2)}`,
+        }
+        return { id: `p${i}`, subjects: subset, value: subset.length + random(), buckets }
+      })
+      const count = 1 + Math.floor(random() * size)
+      const bucketLimits = { event: { e0: limit(), e1: limit() }, time: { t0: limit() } }
+
+      const expected = bruteForce(candidates, ['A', 'B'], count, 1, 2, bucketLimits)
+      const result = solveBalancedSelection(candidates, ['A', 'B'], count, {
+        tolerance: 1,
+        bucketLimits,
+      })
+
+      expect(result.feasible).toBe(expected > -Infinity)
+      if (result.feasible) {
+        expect(objectiveOf(candidates, result.selectedIds, ['A', 'B'])).toBeCloseTo(expected, 9)
+      }
+    }
+  })
+})
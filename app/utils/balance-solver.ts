@@ -0,0 +1,300 @@
+export interface BalanceCandidate {
+  id: string
+  subjects: string[] // Target cluster ids appearing in the photo
+  value: number // Objective contribution when picked (higher = better)
+  // Dimension (e.g. 'time', 'event') -> bucket key, for bucketLimits
+  buckets?: Record<string, string>
+}
+
+export interface SubjectBounds {
+  min?: number
+  max?: number
+}
+
+export type BucketLimits = SubjectBounds
+
+export interface BalanceSolverOptions {
+  tolerance: number // Max allowed difference between the most and least shown subject
+  // Hard per-subject limits. Bounded subjects are left out of the tolerance check.
+  bounds?: Record<string, SubjectBounds>
+  // Dimension -> bucket key -> picks allowed. Buckets without limits are unlimited.
+  // Buckets within a dimension are disjoint; dimensions are independent.
+  bucketLimits?: Record<string, Record<string, BucketLimits>>
+  balancePenalty?: number // Objective cost per unit of spread (max - min)
+  maxNodes?: number // Search budget; the best solution so far is returned when exceeded
+  initialIds?: string[] // Known selection (e.g. greedy) used as the starting incumbent
+}
+
+export interface BalanceSolution {
+  selectedIds: string[]
+  feasible: boolean // A selection within tolerance was found
+  optimal: boolean // Search finished: the solution is optimal (or infeasibility is proven)
+  counts: Map<string, number> // Appearances per subject in the selection
+}
+
+// One unit of spread costs more than one extra appearance, so a perfectly
+// balanced selection beats one with an extra group shot that unbalances it.
+const DEFAULT_BALANCE_PENALTY = 2
+const DEFAULT_MAX_NODES = 200_000
+const EPS = 1e-9
+
+interface PhotoType {
+  subjects: number[] // Subject indices
+  buckets: number[] // Limited bucket indices
+  members: BalanceCandidate[] // Sorted by value, best first
+  prefix: number[] // prefix[k] = total value of the best k members
+}
+
+/**
+ * Picks exactly min(count, candidates.length) photos so that every subject's
+ * appearance count stays within `tolerance` of the others (subjects with
+ * `bounds` must instead stay within their own min/max), maximising
+ *
+ *   sum(value) - balancePenalty * (maxCount - minCount)   (over unbounded subjects)
+ *
+ * Photos with the same set of subjects are interchangeable apart from their
+ * value, so the search is a branch-and-bound over "how many of each subject
+ * set" (best-valued photos first) rather than over individual photos. Nodes
+ * are pruned when the remaining photos cannot bring the least-shown subject
+ * within tolerance, or cannot beat the incumbent. With `bucketLimits`, photos
+ * are further split by bucket and every bucket must stay within its min/max.
+ *
+ * Unbounded subjects without any candidate make every selection infeasible;
+ * callers should pass only subjects that have photos.
+ */
+export function solveBalancedSelection(
+  candidates: ReadonlyArray<BalanceCandidate>,
+  subjectIds: ReadonlyArray<string>,
+  count: number,
+  options: BalanceSolverOptions,
+): BalanceSolution {
+  const { tolerance } = options
+  const penalty = options.balancePenalty ?? DEFAULT_BALANCE_PENALTY
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES
+  const target = Math.min(count, candidates.length)
+  const numSubjects = subjectIds.length
+  const subjectIndex = new Map(subjectIds.map((id, i) => [id, i]))
+  const bounds = options.bounds ?? {}
+  const minOf = subjectIds.map((id) => bounds[id]?.min ?? 0)
+  const maxOf = subjectIds.map((id) => bounds[id]?.max ?? Infinity)
+  // Indices of subjects that take part in the tolerance check
+  const balanced = subjectIds.flatMap((id, i) => (bounds[id] ? [] : [i]))
+
+  const countsOf = (ids: ReadonlyArray<string>) => {
+    const byId = new Map(candidates.map((c) => [c.id, c]))
+    const counts = new Map(subjectIds.map((id) => [id, 0]))
+    for (const id of ids) {
+      for (const s of byId.get(id)?.subjects ?? []) {
+        if (counts.has(s)) counts.set(s, counts.get(s)! + 1)
+      }
+    }
+    return counts
+  }
+  const spreadOf = (values: ReadonlyArray<number>) => {
+    const balancedValues = balanced.map((s) => values[s]!)
+    return balancedValues.length > 0 ? Math.max(...balancedValues) - Math.min(...balancedValues) : 0
+  }
+  const withinBounds = (values: ReadonlyArray<number>) =>
+    values.every((v, s) => v >= minOf[s]! && v <= maxOf[s]!)
+
+  // Flatten limited buckets of every dimension into one index space
+  const limitedBuckets = Object.entries(options.bucketLimits ?? {}).flatMap(([dim, byKey], d) =>
+    Object.entries(byKey).map(([key, limits]) => ({
+      dim,
+      d,
+      key,
+      min: limits.min ?? 0,
+      max: limits.max ?? Infinity,
+    })),
+  )
+  const numBuckets = limitedBuckets.length
+  const numDims = Object.keys(options.bucketLimits ?? {}).length
+  const bucketIndex = new Map(limitedBuckets.map((b, i) => [`${b.dim}\n${b.key}`, i]))
+  const bucketsOf = (candidate: BalanceCandidate) =>
+    Object.entries(candidate.buckets ?? {})
+      .map(([dim, key]) => bucketIndex.get(`${dim}\n${key}`))
+      .filter((b) => b !== undefined)
+      .sort((a, b) => a - b)
+  const withinBucketLimits = (used: ReadonlyArray<number>) =>
+    limitedBuckets.every((b, i) => used[i]! >= b.min && used[i]! <= b.max)
+
+  // 1. Group candidates by subject set (and limited buckets)
+  const typeMap = new Map<string, PhotoType>()
+  for (const candidate of candidates) {
+    const subjects = Array.from(
+      new Set(
+        candidate.subjects.filter((s) => subjectIndex.has(s)).map((s) => subjectIndex.get(s)!),
+      ),
+    ).sort((a, b) => a - b)
+    const buckets = bucketsOf(candidate)
+    const key = `${subjects.join(',')}|${buckets.join(',')}`
+    let type = typeMap.get(key)
+    if (!type) {
+      type = { subjects, buckets, members: [], prefix: [] }
+      typeMap.set(key, type)
+    }
+    type.members.push(candidate)
+  }
+
+  // Stable sort keeps input order among equal values
+  const types = Array.from(typeMap.values())
+  for (const type of types) {
+    type.members.sort((a, b) => b.value - a.value)
+    type.prefix = [0]
+    type.members.forEach((m, k) => type.prefix.push(type.prefix[k]! + m.value))
+  }
+  // Multi-subject types first: they constrain balance the most
+  types.sort((a, b) => b.subjects.length - a.subjects.length || b.members.length - a.members.length)
+  const numTypes = types.length
+
+  // 2. Suffix tables used for pruning
+  // availFrom[i][s]: photos containing subject s in types i..end
+  // sizeFrom[i]:     photos in types i..end
+  // bucketFrom[i][b]: photos in limited bucket b in types i..end
+  // limitedFrom[i][d]: photos in any limited bucket of dimension d in types i..end
+  // bestFrom[i][k]:  total value of the best k photos in types i..end
+  const availFrom: number[][] = Array.from({ length: numTypes + 1 }, () =>
+    new Array(numSubjects).fill(0),
+  )
+  const sizeFrom: number[] = new Array(numTypes + 1).fill(0)
+  const bucketFrom: number[][] = Array.from({ length: numTypes + 1 }, () =>
+    new Array(numBuckets).fill(0),
+  )
+  const limitedFrom: number[][] = Array.from({ length: numTypes + 1 }, () =>
+    new Array(numDims).fill(0),
+  )
+  const bestFrom: number[][] = new Array(numTypes + 1)
+  bestFrom[numTypes] = [0]
+  let suffixValues: number[] = []
+  for (let i = numTypes - 1; i >= 0; i--) {
+    const type = types[i]!
+    availFrom[i] = [...availFrom[i + 1]!]
+    for (const s of type.subjects) availFrom[i]![s]! += type.members.length
+    sizeFrom[i] = sizeFrom[i + 1]! + type.members.length
+    bucketFrom[i] = [...bucketFrom[i + 1]!]
+    limitedFrom[i] = [...limitedFrom[i + 1]!]
+    for (const b of type.buckets) {
+      bucketFrom[i]![b]! += type.members.length
+      limitedFrom[i]![limitedBuckets[b]!.d]! += type.members.length
+    }
+
+    suffixValues = [...suffixValues, ...type.members.map((m) => m.value)]
+      .sort((a, b) => b - a)
+      .slice(0, target)
+    const prefix = [0]
+    suffixValues.forEach((v, k) => prefix.push(prefix[k]! + v))
+    bestFrom[i] = prefix
+  }
+
+  // 3. Incumbent from the initial selection, if it satisfies the constraints
+  let bestObjective = -Infinity
+  let bestChoice: number[] | null = null
+  let initialValid = false
+  if (options.initialIds && options.initialIds.length === target) {
+    const initialCounts = countsOf(options.initialIds)
+    const counts = subjectIds.map((id) => initialCounts.get(id)!)
+    const spread = spreadOf(counts)
+    const byId = new Map(candidates.map((c) => [c.id, c]))
+    const bucketUsage = new Array(numBuckets).fill(0)
+    for (const id of options.initialIds) {
+      const candidate = byId.get(id)
+      if (candidate) bucketsOf(candidate).forEach((b) => bucketUsage[b]++)
+    }
+    if (spread <= tolerance && withinBounds(counts) && withinBucketLimits(bucketUsage)) {
+      const value = options.initialIds.reduce((sum, id) => sum + (byId.get(id)?.value ?? 0), 0)
+      bestObjective = value - penalty * spread
+      initialValid = true
+    }
+  }
+
+  // 4. Depth-first branch and bound
+  const counts = new Array(numSubjects).fill(0)
+  const bucketUsed = new Array(numBuckets).fill(0)
+  const choice = new Array(numTypes).fill(0)
+  let nodes = 0
+  let aborted = false
+
+  const search = (i: number, remaining: number, value: number) => {
+    if (++nodes > maxNodes) {
+      aborted = true
+      return
+    }
+
+    if (remaining === 0) {
+      const spread = spreadOf(counts)
+      if (spread > tolerance || !withinBounds(counts) || !withinBucketLimits(bucketUsed)) return
+      const objective = value - penalty * spread
+      if (objective > bestObjective + EPS) {
+        bestObjective = objective
+        bestChoice = [...choice]
+      }
+      return
+    }
+    if (i === numTypes || sizeFrom[i]! < remaining) return
+
+    // Per dimension: maxima limit how many remaining photos are usable,
+    // minima claim some of the remaining slots
+    if (numBuckets > 0) {
+      const fillable = limitedFrom[i]!.map((limited) => sizeFrom[i]! - limited)
+      const claimed = new Array(numDims).fill(0)
+      for (let b = 0; b < numBuckets; b++) {
+        const { d, min, max } = limitedBuckets[b]!
+        const available = bucketFrom[i]![b]!
+        if (bucketUsed[b]! + Math.min(available, remaining) < min) return
+        fillable[d]! += Math.min(max - bucketUsed[b]!, available)
+        claimed[d] += Math.max(0, min - bucketUsed[b]!)
+      }
+      for (let d = 0; d < numDims; d++) {
+        if (fillable[d]! < remaining || claimed[d] > remaining) return
+      }
+    }
+
+    // Each subject can gain at most its remaining photos
+    const potential = (s: number) => counts[s]! + Math.min(availFrom[i]![s]!, remaining)
+    for (let s = 0; s < numSubjects; s++) {
+      if (counts[s]! > maxOf[s]! || potential(s) < minOf[s]!) return
+    }
+
+    let curMax = -Infinity
+    let minPotential = Infinity
+    for (const s of balanced) {
+      curMax = Math.max(curMax, counts[s]!)
+      minPotential = Math.min(minPotential, potential(s))
+    }
+    const minSpread = balanced.length > 0 ? Math.max(0, curMax - minPotential) : 0
+    if (minSpread > tolerance) return
+
+    const upperBound = value + bestFrom[i]![remaining]! - penalty * minSpread
+    if (upperBound <= bestObjective + EPS) return
+
+    const type = types[i]!
+    const bucketRoom = Math.min(...type.buckets.map((b) => limitedBuckets[b]!.max - bucketUsed[b]!))
+    for (let k = Math.min(type.members.length, remaining, bucketRoom); k >= 0; k--) {
+      for (const s of type.subjects) counts[s] += k
+      for (const b of type.buckets) bucketUsed[b] += k
+      choice[i] = k
+      search(i + 1, remaining - k, value + type.prefix[k]!)
+      for (const s of type.subjects) counts[s] -= k
+      for (const b of type.buckets) bucketUsed[b] -= k
+      choice[i] = 0
+      if (aborted) return
+    }
+  }
+
+  search(0, target, 0)
+
+  let selectedIds: string[] = []
+  if (bestChoice) {
+    const picked: number[] = bestChoice
+    selectedIds = types.flatMap((type, i) => type.members.slice(0, picked[i]).map((m) => m.id))
+  } else if (initialValid) {
+    selectedIds = [...options.initialIds!]
+  }
+
+  return {
+    selectedIds,
+    feasible: bestChoice !== null || initialValid,
+    optimal: !aborted,
+    counts: countsOf(selectedIds),
+  }
+}
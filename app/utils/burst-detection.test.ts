@@ -1,22 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { groupBurstPhotos, deduplicateBurstPhotos, selectBestFromBurst } from './burst-detection'
-import type { Photo, FaceCluster } from './types'
-import * as faceapi from 'face-api.js'
-
-// Mock face-api.js
-vi.mock('face-api.js', async (importOriginal) => {
-  const actual = await importOriginal<typeof import('face-api.js')>()
-  return {
-    ...actual,
-    euclideanDistance: vi.fn(),
-  }
-})
+import { describe, it, expect } from 'vitest'
+import {
+  burstThreshold,
+  groupBurstPhotos,
+  groupNearDuplicatePhotos,
+  deduplicateBurstPhotos,
+  reviewBurstGroups,
+  selectBestFromBurst,
+} from './burst-detection'
+import type { Photo, FaceCluster, BurstOverride } from './types'
 
 describe('burst-detection', () => {
-  beforeEach(() => {
-    vi.clearAllMocks()
-  })
-
   describe('groupBurstPhotos', () => {
     it('should return empty array for empty input', () => {
       expect(groupBurstPhotos([])).toEqual([])
@@ -88,6 +81,148 @@ describe('burst-detection', () => {
     })
   })
 
+  describe('burst options', () => {
+    const at = (...timestamps: number[]) =>
+      timestamps.map((timestamp, i) => ({ id: `${i}`, timestamp, faces: [] }) as unknown as Photo)
+    const ids = (groups: { photos: Photo[] }[]) => groups.map((g) => g.photos.map((p) => p.id))
+
+    it('should use a custom fixed threshold', () => {
+      // A slow camera burst at 3.5 s intervals
+      const photos = at(0, 3500, 7000, 60_000)
+
+      expect(ids(groupBurstPhotos(photos))).toEqual([['0'], ['1'], ['2'], ['3']])
+      expect(ids(groupBurstPhotos(photos, { thresholdMs: 4000 }))).toEqual([['0', '1', '2'], ['3']])
+    })
+
+    it('should derive the threshold from inter-shot intervals in adaptive mode', () => {
+      // Phone at 10 fps: 100 ms bursts, shots 1.5 s apart are separate moments
+      const phone = at(0, 100, 200, 300, 1800, 1900, 2000)
+      expect(burstThreshold(phone, { mode: 'adaptive' })).toBe(500)
+      expect(ids(groupBurstPhotos(phone, { mode: 'adaptive' }))).toEqual([
+        ['0', '1', '2', '3'],
+        ['4', '5', '6'],
+      ])
+
+      // Slow camera at 3-4 s intervals
+      const camera = at(0, 3000, 6500, 10_000, 60_000)
+      expect(burstThreshold(camera, { mode: 'adaptive' })).toBe(5000)
+      expect(ids(groupBurstPhotos(camera, { mode: 'adaptive' }))).toEqual([
+        ['0', '1', '2', '3'],
+        ['4'],
+      ])
+    })
+
+    it('should fall back to the fixed threshold without short intervals', () => {
+      const sparse = at(0, 60_000, 120_000)
+
+      expect(burstThreshold(sparse, { mode: 'adaptive' })).toBe(2000)
+      expect(burstThreshold(sparse, { mode: 'adaptive', thresholdMs: 3000 })).toBe(3000)
+    })
+
+    it('should split long runs at the max group size', () => {
+      const photos = at(0, 500, 1000, 1500, 2000)
+
+      expect(ids(groupBurstPhotos(photos, { maxGroupSize: 2 }))).toEqual([
+        ['0', '1'],
+        ['2', '3'],
+        ['4'],
+      ])
+      expect(deduplicateBurstPhotos(photos, [], { maxGroupSize: 2 })).toHaveLength(3)
+    })
+  })
+
+  describe('groupNearDuplicatePhotos', () => {
+    const photo = (id: string, timestamp: number, perceptualHash?: string) =>
+      ({ id, timestamp, faces: [], perceptualHash }) as unknown as Photo
+
+    it('should group visually similar photos taken seconds apart', () => {
+      const groups = groupNearDuplicatePhotos([
+        photo('first', 1000, 'f0f0f0f0f0f0f0f0'),
+        photo('other', 6000, '0f0f0f0f0f0f0f0f'),
+        // Same scene again after a pause: a few bits differ
+        photo('again', 20_000, 'f0f0f0f0f0f0f0f3'),
+      ])
+
+      expect(groups.map((g) => g.photos.map((p) => p.id))).toEqual([['first', 'again'], ['other']])
+    })
+
+    it('should not merge similar backdrops shot on different days', () => {
+      const DAY = 24 * 60 * 60 * 1000
+      const groups = groupNearDuplicatePhotos([
+        photo('monday', 0, 'aaaaaaaaaaaaaaaa'),
+        // 4 bits differ: the same room, not a copy of the photo
+        photo('tuesday', DAY, 'aaaaaaaaaaaaaaa5'),
+      ])
+
+      expect(groups).toHaveLength(2)
+    })
+
+    it('should group copies of a photo saved hours apart', () => {
+      const HOUR = 60 * 60 * 1000
+      const groups = groupNearDuplicatePhotos([
+        photo('original', 0, 'f0f0f0f0f0f0f0f0'),
+        photo('other', 10_000, '0f0f0f0f0f0f0f0f'),
+        // Re-saved by a messaging app: a bit or two differ
+        photo('sent', 5 * HOUR, 'f0f0f0f0f0f0f0f1'),
+        photo('saved', 30 * HOUR, 'f0f0f0f0f0f0f0f2'),
+      ])
+
+      expect(groups.map((g) => g.photos.map((p) => p.id))).toEqual([
+        ['original', 'sent', 'saved'],
+        ['other'],
+      ])
+    })
+
+    it('should compare with the group representative instead of chaining', () => {
+      // Each shot drifts 8 bits from the previous one, 16 from the first
+      const groups = groupNearDuplicatePhotos([
+        photo('1', 0, '0000000000000000'),
+        photo('2', 10_000, '00000000000000ff'),
+        photo('3', 20_000, '000000000000ffff'),
+      ])
+
+      expect(groups.map((g) => g.photos.map((p) => p.id))).toEqual([['1', '2'], ['3']])
+    })
+
+    it('should respect maxGroupSize for look-alikes', () => {
+      const groups = groupNearDuplicatePhotos(
+        [
+          photo('1', 0, 'aaaaaaaaaaaaaaaa'),
+          photo('2', 10_000, 'aaaaaaaaaaaaaaaa'),
+          photo('3', 20_000, 'aaaaaaaaaaaaaaaa'),
+        ],
+        { maxGroupSize: 2 },
+      )
+
+      expect(groups.map((g) => g.photos.map((p) => p.id))).toEqual([['1', '2'], ['3']])
+    })
+
+    it('should still group bursts by time, with or without hashes', () => {
+      const groups = groupNearDuplicatePhotos([
+        photo('1', 1000, 'ffffffffffffffff'),
+        photo('2', 2000, '0000000000000000'),
+        photo('3', 10_000),
+        photo('4', 11_000),
+      ])
+
+      expect(groups.map((g) => g.photos.map((p) => p.id))).toEqual([
+        ['1', '2'],
+        ['3', '4'],
+      ])
+    })
+
+    it('should merge a burst with a near-duplicate of one of its photos', () => {
+      const groups = groupNearDuplicatePhotos([
+        photo('1', 1000),
+        photo('2', 2000, 'aaaaaaaaaaaaaaaa'),
+        photo('copy', 30_000, 'aaaaaaaaaaaaaaab'),
+      ])
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0]!.photos.map((p) => p.id)).toEqual(['1', '2', 'copy'])
+    })
+  })
+
   describe('selectBestFromBurst', () => {
     it('should return the only photo in a group of size 1', () => {
       const group = {
@@ -100,9 +235,6 @@ describe('burst-detection', () => {
     })
 
     it('should select photo with more matched subjects', () => {
-      // Mock euclideanDistance to simulate matching
-      vi.mocked(faceapi.euclideanDistance).mockReturnValue(0.4) // Match (assuming threshold is 0.6)
-
       const targetCluster: FaceCluster = {
         id: 'c1',
         descriptor: new Float32Array(),
@@ -161,6 +293,208 @@ describe('burst-detection', () => {
       const best = selectBestFromBurst(group, [])
       expect(best.id).toBe('2')
     })
+
+    it('should prefer the frame where eyes are open', () => {
+      const face = (eyesOpenScore: number) =>
+        ({
+          descriptor: new Float32Array(),
+          box: { width: 10, height: 10 },
+          eyesOpenScore,
+        }) as unknown as NonNullable<Photo['faces']>[0]
+
+      const blink: Photo = { id: '1', timestamp: 1000, faces: [face(0)] } as unknown as Photo
+      const open: Photo = { id: '2', timestamp: 1100, faces: [face(1)] } as unknown as Photo
+
+      expect(selectBestFromBurst({ photos: [blink, open] }, []).id).toBe('2')
+      expect(selectBestFromBurst({ photos: [open, blink] }, []).id).toBe('2')
+    })
+
+    it('should pick the sharpest smiling frame', () => {
+      const frame = (id: string, blurScore: number, smileScore: number) =>
+        ({
+          id,
+          timestamp: 1000,
+          width: 1000,
+          height: 1000,
+          blurScore,
+          faces: [
+            {
+              descriptor: new Float32Array(),
+              box: { x: 400, y: 400, width: 200, height: 200 },
+              smileScore,
+            },
+          ],
+        }) as unknown as Photo
+
+      const shaky = frame('shaky', 0.2, 0.9)
+      const serious = frame('serious', 0.9, 0.1)
+      const best = frame('best', 0.9, 0.9)
+
+      expect(selectBestFromBurst({ photos: [shaky, serious, best] }, []).id).toBe('best')
+      expect(selectBestFromBurst({ photos: [shaky, serious] }, []).id).toBe('serious')
+    })
+
+    it('should let selection weights shift the choice', () => {
+      const sharp = {
+        id: 'sharp',
+        timestamp: 1000,
+        blurScore: 0.9,
+        faces: [{ descriptor: new Float32Array(), box: { width: 10, height: 10 }, smileScore: 0 }],
+      } as unknown as Photo
+      const smiling = {
+        id: 'smiling',
+        timestamp: 1100,
+        blurScore: 0.3,
+        faces: [{ descriptor: new Float32Array(), box: { width: 10, height: 10 }, smileScore: 1 }],
+      } as unknown as Photo
+      const weights = {
+        smile: 1,
+        faceScore: 0,
+        orientation: 0,
+        blur: 0,
+        exposure: 0,
+        eyesOpen: 0,
+        composition: 0,
+        timeSpread: 0,
+        groupBalance: 0.5,
+      }
+
+      expect(selectBestFromBurst({ photos: [sharp, smiling] }, []).id).toBe('sharp')
+      expect(selectBestFromBurst({ photos: [sharp, smiling] }, [], weights).id).toBe('smiling')
+    })
+
+    it('should prefer the frame where the face is sharp over a sharp background', () => {
+      const frame = (id: string, blurScore: number, sharpnessScore: number) =>
+        ({
+          id,
+          timestamp: 1000,
+          blurScore,
+          faces: [
+            { descriptor: new Float32Array(), box: { width: 10, height: 10 }, sharpnessScore },
+          ],
+        }) as unknown as Photo
+
+      const movingChild = frame('moving', 0.9, 0.1)
+      const stillChild = frame('still', 0.6, 0.8)
+
+      expect(selectBestFromBurst({ photos: [movingChild, stillChild] }, []).id).toBe('still')
+    })
+
+    it('should prefer the well lit frame', () => {
+      const frame = (id: string, brightness: number) =>
+        ({
+          id,
+          timestamp: 1000,
+          exposure: { brightness, shadowClipping: 0, highlightClipping: 0, contrast: 0.5 },
+          faces: [{ descriptor: new Float32Array(), box: { width: 10, height: 10 }, brightness }],
+        }) as unknown as Photo
+
+      expect(selectBestFromBurst({ photos: [frame('dark', 0.1), frame('lit', 0.5)] }, []).id).toBe(
+        'lit',
+      )
+    })
+
+    it('should prefer the frame where the subject is not cut off', () => {
+      const frame = (id: string, completenessScore: number) =>
+        ({
+          id,
+          timestamp: 1000,
+          faces: [
+            { descriptor: new Float32Array(), box: { width: 10, height: 10 }, completenessScore },
+          ],
+        }) as unknown as Photo
+
+      const cutOff = frame('cut', 0.4)
+      const whole = frame('whole', 1)
+
+      expect(selectBestFromBurst({ photos: [cutOff, whole] }, []).id).toBe('whole')
+    })
+
+    it('should compare face area relative to the image size', () => {
+      const face = (size: number) => ({
+        descriptor: new Float32Array(),
+        box: { x: 0, y: 0, width: size, height: size },
+      })
+      // More face pixels, but a small part of a large frame
+      const wide = {
+        id: 'wide',
+        timestamp: 1000,
+        width: 4000,
+        height: 3000,
+        faces: [face(400)],
+      } as unknown as Photo
+      const closeUp = {
+        id: 'closeUp',
+        timestamp: 1100,
+        width: 800,
+        height: 600,
+        faces: [face(300)],
+      } as unknown as Photo
+
+      expect(selectBestFromBurst({ photos: [wide, closeUp] }, []).id).toBe('closeUp')
+    })
+  })
+
+  describe('reviewBurstGroups', () => {
+    const frame = (id: string, timestamp: number, blurScore: number) =>
+      ({ id, timestamp, blurScore, faces: [] }) as unknown as Photo
+    // One burst of three frames, 'b' is the sharpest, then a separate photo
+    const photos = [
+      frame('a', 0, 0.5),
+      frame('b', 500, 0.9),
+      frame('c', 1000, 0.1),
+      frame('d', 60_000, 1),
+    ]
+    const override = (photoId: string, flags: Partial<BurstOverride>): BurstOverride => ({
+      photoId,
+      sessionId: 's1',
+      ...flags,
+    })
+
+    it('should return groups with scores and the automatic winner', () => {
+      const groups = reviewBurstGroups(photos)
+
+      expect(groups).toHaveLength(2)
+      expect(groups[0]!.photos.map((p) => p.photo.id)).toEqual(['a', 'b', 'c'])
+      expect(groups[0]!.photos[1]!.score).toBeGreaterThan(groups[0]!.photos[0]!.score)
+      expect(groups[0]!.automaticWinnerId).toBe('b')
+      expect(groups[0]!.keptIds).toEqual(['b'])
+      expect(groups[0]!.pinnedId).toBeUndefined()
+    })
+
+    it('should use a pinned frame instead of the winner', () => {
+      const overrides = [override('c', { pinned: true })]
+
+      const groups = reviewBurstGroups(photos, [], { overrides })
+
+      expect(groups[0]!.automaticWinnerId).toBe('b')
+      expect(groups[0]!.keptIds).toEqual(['c'])
+      expect(deduplicateBurstPhotos(photos, [], { overrides }).map((p) => p.id)).toEqual(['c', 'd'])
+    })
+
+    it('should keep every frame of a burst marked keep all', () => {
+      const overrides = [override('a', { keepAll: true })]
+
+      expect(deduplicateBurstPhotos(photos, [], { overrides }).map((p) => p.id)).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+      ])
+    })
+
+    it('should split a burst where the user asked', () => {
+      const overrides = [override('c', { splitBefore: true })]
+
+      const groups = reviewBurstGroups(photos, [], { overrides })
+
+      expect(groups.map((g) => g.photos.map((p) => p.photo.id))).toEqual([['a', 'b'], ['c'], ['d']])
+      expect(deduplicateBurstPhotos(photos, [], { overrides }).map((p) => p.id)).toEqual([
+        'b',
+        'c',
+        'd',
+      ])
+    })
   })
 
   describe('deduplicateBurstPhotos', () => {
@@ -198,5 +532,14 @@ describe('burst-detection', () => {
       const result = deduplicateBurstPhotos(photos)
       expect(result).toHaveLength(2)
     })
+
+    it('should keep one of two visually identical photos', () => {
+      const photos = [
+        { id: 'a', timestamp: 1000, faces: [], perceptualHash: '0123456789abcdef' },
+        { id: 'b', timestamp: 40_000, faces: [], perceptualHash: '0123456789abcdef' },
+      ] as unknown as Photo[]
+
+      expect(deduplicateBurstPhotos(photos)).toHaveLength(1)
+    })
   })
 })
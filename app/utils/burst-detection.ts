@@ -1,21 +1,103 @@
-import type { Photo, FaceCluster } from './types'
-import { CLUSTER_THRESHOLD } from './clustering'
-import * as faceapi from 'face-api.js'
+import type { Photo, FaceCluster, BurstOverride } from './types'
+import { CLUSTER_THRESHOLD, clusterDistance } from './clustering'
+import { hammingDistance, hashToWords, type HashWords } from './perceptual-hash'
+import {
+  compositionScore,
+  INCOMPLETE_FACE_PENALTY,
+  orientationScore,
+  showsSubject,
+  subjectSharpness,
+} from './face-metrics'
+import { exposureScore } from './image-analysis'
+import type { SelectionWeights } from './selection-algorithm'
 
 // Photos within this time window are considered part of the same burst
-const BURST_THRESHOLD_MS = 2000
+export const BURST_THRESHOLD_MS = 2000
+// Adaptive mode: gaps up to this long are candidate burst intervals
+const ADAPTIVE_WINDOW_MS = 10_000
+// Adaptive mode: the threshold is this many times the typical burst interval...
+const ADAPTIVE_FACTOR = 2.5
+// ...kept within these bounds (phones at 10 fps up to slow camera bursts)
+const MIN_ADAPTIVE_THRESHOLD_MS = 500
+const MAX_ADAPTIVE_THRESHOLD_MS = 5000
+// Photos whose perceptual hashes differ by at most this many bits (of 64) look the same
+export const NEAR_DUPLICATE_HASH_DISTANCE = 10
+// ...and were taken at most this long apart. Further apart, a similar backdrop
+// (the same classroom on another day) is a different photo.
+export const NEAR_DUPLICATE_WINDOW_MS = 60_000
+// Hashes this close are copies of one photo (re-saved, sent through a messaging app),
+// which can turn up hours later, so they're grouped whatever the time gap
+export const COPY_HASH_DISTANCE = 3
 
 interface BurstGroup {
   photos: Photo[]
 }
 
+interface NearDuplicateGroup extends BurstGroup {
+  representative?: HashWords // Hash of its first hashed photo
+}
+
+/**
+ * How consecutive shots are grouped into bursts:
+ *   - 'fixed':    photos within thresholdMs of each other
+ *   - 'adaptive': threshold derived from the session's inter-shot intervals
+ */
+export interface BurstOptions {
+  mode?: 'fixed' | 'adaptive' // Default 'fixed'
+  thresholdMs?: number // Fixed mode threshold, default BURST_THRESHOLD_MS
+  maxGroupSize?: number // Longer runs are split into several bursts (default unlimited)
+  overrides?: ReadonlyArray<BurstOverride> // User corrections from the burst review
+}
+
+export interface BurstReviewGroup {
+  photos: { photo: Photo; score: number }[] // In time order
+  automaticWinnerId: string // Highest scoring frame
+  pinnedId?: string // Frame the user picked instead
+  keepAll: boolean
+  keptIds: string[] // Photos that go on to selection
+}
+
+/**
+ * Gap (ms) up to which consecutive photos belong to the same burst.
+ *
+ * Adaptive mode takes the median of the short gaps (up to ADAPTIVE_WINDOW_MS)
+ * as the camera's burst interval and allows ADAPTIVE_FACTOR times that, so a
+ * 10 fps phone burst doesn't swallow the next shot and a slow 3-4 s camera
+ * burst still counts as one. Without short gaps it falls back to the fixed
+ * threshold.
+ */
+export function burstThreshold(photos: ReadonlyArray<Photo>, options: BurstOptions = {}): number {
+  const fixed = options.thresholdMs ?? BURST_THRESHOLD_MS
+  if (options.mode !== 'adaptive') return fixed
+
+  const sorted = photos.map((p) => p.timestamp).sort((a, b) => a - b)
+  const gaps = sorted
+    .slice(1)
+    .map((t, i) => t - sorted[i]!)
+    .filter((gap) => gap <= ADAPTIVE_WINDOW_MS)
+    .sort((a, b) => a - b)
+  if (gaps.length === 0) return fixed
+
+  const median = gaps[Math.floor(gaps.length / 2)]!
+  return Math.min(
+    MAX_ADAPTIVE_THRESHOLD_MS,
+    Math.max(MIN_ADAPTIVE_THRESHOLD_MS, median * ADAPTIVE_FACTOR),
+  )
+}
+
 /**
  * Groups photos into burst groups based on timestamp proximity.
- * Photos taken within BURST_THRESHOLD_MS of each other are grouped together.
+ * Photos taken within burstThreshold of each other are grouped together,
+ * up to maxGroupSize photos per group.
  */
-export function groupBurstPhotos(photos: ReadonlyArray<Photo>): BurstGroup[] {
+export function groupBurstPhotos(
+  photos: ReadonlyArray<Photo>,
+  options: BurstOptions = {},
+): BurstGroup[] {
   if (photos.length === 0) return []
 
+  const threshold = burstThreshold(photos, options)
+  const maxGroupSize = options.maxGroupSize ?? Infinity
   const sorted = [...photos].sort((a, b) => a.timestamp - b.timestamp)
   const groups: BurstGroup[] = []
   let currentGroup: Photo[] = [sorted[0]!]
@@ -24,7 +106,7 @@ export function groupBurstPhotos(photos: ReadonlyArray<Photo>): BurstGroup[] {
     const photo = sorted[i]!
     const prevPhoto = sorted[i - 1]!
 
-    if (photo.timestamp - prevPhoto.timestamp <= BURST_THRESHOLD_MS) {
+    if (photo.timestamp - prevPhoto.timestamp <= threshold && currentGroup.length < maxGroupSize) {
       currentGroup.push(photo)
     } else {
       groups.push({ photos: currentGroup })
@@ -37,32 +119,166 @@ export function groupBurstPhotos(photos: ReadonlyArray<Photo>): BurstGroup[] {
 }
 
 /**
- * Calculates the total face area in a photo (sum of all bounding box areas).
+ * Groups photos that are bursts (see groupBurstPhotos) or look the same
+ * (perceptual hashes within NEAR_DUPLICATE_HASH_DISTANCE) and were taken within
+ * NEAR_DUPLICATE_WINDOW_MS of each other, e.g. shots a few seconds apart.
+ * Copies (hashes within COPY_HASH_DISTANCE) are grouped at any time gap.
+ *
+ * A burst joins an earlier group when its first hashed photo matches that group's
+ * representative (its first hashed photo), so look-alikes don't chain into one
+ * group, and only while the merged group stays within maxGroupSize. Photos
+ * without a perceptualHash are grouped by time only.
+ *
+ * Groups are ordered by their earliest photo.
+ */
+export function groupNearDuplicatePhotos(
+  photos: ReadonlyArray<Photo>,
+  options: BurstOptions = {},
+): BurstGroup[] {
+  if (photos.length === 0) return []
+
+  const maxGroupSize = options.maxGroupSize ?? Infinity
+  const representativeOf = (group: Photo[]) => {
+    const hashed = group.find((p) => p.perceptualHash)
+    return hashed ? hashToWords(hashed.perceptualHash!) : undefined
+  }
+
+  const groups: NearDuplicateGroup[] = []
+  // Groups whose last photo is still within the window, oldest first
+  let open: NearDuplicateGroup[] = []
+
+  for (const burst of groupBurstPhotos(photos, options)) {
+    const start = burst.photos[0]!.timestamp
+    open = open.filter(
+      (g) => start - g.photos[g.photos.length - 1]!.timestamp <= NEAR_DUPLICATE_WINDOW_MS,
+    )
+    const representative = representativeOf(burst.photos)
+    const within = (g: NearDuplicateGroup, distance: number) =>
+      !!g.representative &&
+      g.photos.length + burst.photos.length <= maxGroupSize &&
+      hammingDistance(g.representative, representative!) <= distance
+    const match =
+      representative &&
+      (open.find((g) => within(g, NEAR_DUPLICATE_HASH_DISTANCE)) ??
+        groups.find((g) => within(g, COPY_HASH_DISTANCE)))
+
+    if (match) {
+      match.photos.push(...burst.photos)
+    } else {
+      const group = { photos: [...burst.photos], representative }
+      groups.push(group)
+      open.push(group)
+    }
+  }
+
+  // User splits start a new group at the marked photo
+  const splitBefore = new Set(
+    (options.overrides ?? []).filter((o) => o.splitBefore).map((o) => o.photoId),
+  )
+  return groups
+    .flatMap(({ photos: group }) => {
+      const pieces: Photo[][] = []
+      group.forEach((photo, i) => {
+        if (i === 0 || splitBefore.has(photo.id)) pieces.push([photo])
+        else pieces[pieces.length - 1]!.push(photo)
+      })
+      return pieces
+    })
+    .sort((a, b) => a[0]!.timestamp - b[0]!.timestamp)
+    .map((group) => ({ photos: group }))
+}
+
+type PhotoFace = NonNullable<Photo['faces']>[number]
+
+/**
+ * Baseline quality model for picking the best frame of a burst. The album's
+ * SelectionWeights are added on top, so the sharpest frame with open eyes
+ * wins even when every fine-tune slider is at zero.
+ */
+export const BURST_BASE_WEIGHTS: SelectionWeights = {
+  smile: 0.5,
+  faceScore: 0.25,
+  orientation: 0.25,
+  blur: 1,
+  exposure: 0.5,
+  eyesOpen: 1,
+  composition: 0,
+  timeSpread: 0,
+  groupBalance: 0.5,
+}
+
+// Total face area (share of the frame) that gets the full size score
+const FULL_FACE_AREA_RATIO = 0.1
+
+/**
+ * Total face area relative to the frame, 0-1 (square-rooted so small faces
+ * still rank). 0 when the image size is unknown.
  */
-function totalFaceArea(photo: Photo): number {
-  if (!photo.faces || photo.faces.length === 0) return 0
-  return photo.faces.reduce((sum, face) => {
-    const { width, height } = face.box
-    return sum + (width ?? 0) * (height ?? 0)
-  }, 0)
+function faceAreaScore(photo: Photo, faces: ReadonlyArray<PhotoFace>): number {
+  if (!photo.width || !photo.height || faces.length === 0) return 0
+  const area = faces.reduce((sum, face) => sum + (face.box.width ?? 0) * (face.box.height ?? 0), 0)
+  return Math.min(Math.sqrt(area / (photo.width * photo.height) / FULL_FACE_AREA_RATIO), 1)
 }
 
 /**
- * Counts how many target subjects appear in a photo.
+ * Target subjects appearing in a photo and the faces that matched them.
  */
-function countMatchedSubjects(photo: Photo, targetClusters: ReadonlyArray<FaceCluster>): number {
-  if (!photo.faces || photo.faces.length === 0 || targetClusters.length === 0) return 0
+function matchTargets(
+  photo: Photo,
+  targetClusters: ReadonlyArray<FaceCluster>,
+): { subjects: number; faces: PhotoFace[] } {
+  if (!photo.faces || photo.faces.length === 0 || targetClusters.length === 0) {
+    return { subjects: 0, faces: [] }
+  }
 
   const matched = new Set<string>()
+  const faces: PhotoFace[] = []
   for (const face of photo.faces) {
+    let isTarget = false
     for (const cluster of targetClusters) {
       const threshold = cluster.config?.similarityThreshold ?? CLUSTER_THRESHOLD
-      if (faceapi.euclideanDistance(face.descriptor, cluster.descriptor) < threshold) {
-        matched.add(cluster.id)
+      if (clusterDistance(cluster, face.descriptor, photo.timestamp) < threshold) {
+        if (showsSubject(face)) matched.add(cluster.id)
+        isTarget = true
       }
     }
+    if (isTarget) faces.push(face)
+  }
+  return { subjects: matched.size, faces }
+}
+
+const average = (faces: ReadonlyArray<PhotoFace>, metric: (face: PhotoFace) => number) =>
+  faces.reduce((sum, face) => sum + metric(face), 0) / faces.length
+
+/**
+ * Frame quality from the stored signals, weighted like group mode's quality
+ * score: smile, detection confidence, facing the camera, open eyes, visible
+ * faces, framing, sharpness and lighting. Face metrics, sharpness included, are
+ * averaged over `faces`.
+ */
+function burstQualityScore(
+  photo: Photo,
+  faces: ReadonlyArray<PhotoFace>,
+  weights: SelectionWeights,
+): number {
+  let score = 0
+  if (faces.length > 0) {
+    score += average(faces, (f) => f.smileScore ?? 0) * weights.smile * 2
+    score += average(faces, (f) => f.score ?? 0) * weights.faceScore
+    score += average(faces, orientationScore) * weights.orientation
+    // Faces analysed before eye detection have no score: treat as open
+    score -= (1 - average(faces, (f) => f.eyesOpenScore ?? 1)) * weights.eyesOpen * 2
+    // Cut off or hidden faces; older analyses have no score and count as visible
+    score -= (1 - average(faces, (f) => f.completenessScore ?? 1)) * INCOMPLETE_FACE_PENALTY
+    score +=
+      average(faces, (f) => compositionScore(f.box, photo.width, photo.height)) *
+      weights.composition
   }
-  return matched.size
+  const sharpness = subjectSharpness(photo.blurScore, faces)
+  if (sharpness !== undefined) score += sharpness * weights.blur * 2
+  const exposure = exposureScore(photo.exposure, faces)
+  if (exposure !== undefined) score += exposure * weights.exposure
+  return score
 }
 
 /**
@@ -71,44 +287,109 @@ function countMatchedSubjects(photo: Photo, targetClusters: ReadonlyArray<FaceCl
  * Scoring weights (higher = better):
  *   1. Target subject match count  (weight: 1000)
  *   2. Number of detected faces     (weight: 10)
- *   3. Total face bounding box area (weight: normalized 0-1)
+ *   3. Frame quality                (burstQualityScore, roughly -6 to 12)
+ *   4. Face area relative to frame  (weight: normalized 0-1)
+ *
+ * Quality uses the target faces when there are any, otherwise every face.
  */
-function scorePhoto(photo: Photo, targetClusters: ReadonlyArray<FaceCluster>): number {
-  const subjectScore = countMatchedSubjects(photo, targetClusters) * 1000
+function scorePhoto(
+  photo: Photo,
+  targetClusters: ReadonlyArray<FaceCluster>,
+  weights: SelectionWeights,
+): number {
+  const targets = matchTargets(photo, targetClusters)
+  const faces = targets.faces.length > 0 ? targets.faces : (photo.faces ?? [])
+
+  const subjectScore = targets.subjects * 1000
   const faceCountScore = (photo.faces?.length ?? 0) * 10
-  const faceAreaScore = totalFaceArea(photo) > 0 ? Math.min(totalFaceArea(photo) / 100000, 1) : 0
 
-  return subjectScore + faceCountScore + faceAreaScore
+  return (
+    subjectScore +
+    faceCountScore +
+    burstQualityScore(photo, faces, weights) +
+    faceAreaScore(photo, faces)
+  )
 }
 
 /**
  * Selects the best photo from a burst group based on scoring criteria.
+ * `weights` (e.g. the album's fine-tune sliders) add to BURST_BASE_WEIGHTS.
  */
 export function selectBestFromBurst(
   group: BurstGroup,
   targetClusters: ReadonlyArray<FaceCluster> = [],
+  weights?: SelectionWeights,
 ): Photo {
   if (group.photos.length === 1) return group.photos[0]!
 
-  return group.photos.reduce((best, current) => {
-    const bestScore = scorePhoto(best, targetClusters)
-    const currentScore = scorePhoto(current, targetClusters)
-    return currentScore > bestScore ? current : best
+  const combined = withBaseWeights(weights)
+  const scores = new Map(group.photos.map((p) => [p, scorePhoto(p, targetClusters, combined)]))
+  return group.photos.reduce((best, current) =>
+    scores.get(current)! > scores.get(best)! ? current : best,
+  )
+}
+
+function withBaseWeights(weights: SelectionWeights | undefined): SelectionWeights {
+  const combined = { ...BURST_BASE_WEIGHTS }
+  if (weights) {
+    for (const key of Object.keys(combined) as (keyof SelectionWeights)[]) {
+      combined[key] += weights[key]
+    }
+  }
+  return combined
+}
+
+/**
+ * Burst groups with every frame's score, the automatic winner and the user's
+ * overrides applied (options.overrides): a pinned frame replaces the winner,
+ * "keep all" keeps every frame, and splits are applied to the grouping.
+ */
+export function reviewBurstGroups(
+  photos: ReadonlyArray<Photo>,
+  targetClusters: ReadonlyArray<FaceCluster> = [],
+  options: BurstOptions = {},
+  weights?: SelectionWeights,
+): BurstReviewGroup[] {
+  const combined = withBaseWeights(weights)
+  const overrides = new Map((options.overrides ?? []).map((o) => [o.photoId, o]))
+
+  return groupNearDuplicatePhotos(photos, options).map((group) => {
+    const scored = group.photos.map((photo) => ({
+      photo,
+      score: scorePhoto(photo, targetClusters, combined),
+    }))
+    const automaticWinnerId = scored.reduce((best, current) =>
+      current.score > best.score ? current : best,
+    ).photo.id
+    const pinnedId = group.photos.find((p) => overrides.get(p.id)?.pinned)?.id
+    const keepAll = group.photos.some((p) => overrides.get(p.id)?.keepAll)
+
+    return {
+      photos: scored,
+      automaticWinnerId,
+      pinnedId,
+      keepAll,
+      keptIds: keepAll ? group.photos.map((p) => p.id) : [pinnedId ?? automaticWinnerId],
+    }
   })
 }
 
 /**
- * Deduplicates burst photos by grouping consecutive shots and
- * selecting the best from each group.
+ * Deduplicates burst photos by grouping consecutive shots and visually
+ * near-identical photos (see groupNearDuplicatePhotos) and selecting the
+ * best from each group, or the frames the user chose (see reviewBurstGroups).
  *
  * Non-burst photos (single-photo groups) pass through unchanged.
  */
 export function deduplicateBurstPhotos(
   photos: ReadonlyArray<Photo>,
   targetClusters: ReadonlyArray<FaceCluster> = [],
+  options: BurstOptions = {},
+  weights?: SelectionWeights,
 ): Photo[] {
   if (photos.length <= 1) return [...photos]
 
-  const groups = groupBurstPhotos(photos)
-  return groups.map((group) => selectBestFromBurst(group, targetClusters))
+  return reviewBurstGroups(photos, targetClusters, options, weights).flatMap((group) =>
+    group.photos.filter((p) => group.keptIds.includes(p.photo.id)).map((p) => p.photo),
+  )
 }
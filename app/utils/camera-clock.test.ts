@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  cameraKey,
+  clockOffsetOf,
+  correctCameraClock,
+  groupPhotosByCamera,
+  UNKNOWN_CAMERA,
+  withClockOffset,
+  withSessionClockOffset,
+} from './camera-clock'
+import * as db from './db'
+import { segmentSessionEvents } from './event-detection'
+import type { Photo, ProcessingSession } from './types'
+
+vi.mock('./db', async () => {
+  return { getDB: vi.fn() }
+})
+
+vi.mock('./event-detection', () => ({
+  segmentSessionEvents: vi.fn(),
+}))
+
+const HOUR = 60 * 60 * 1000
+
+function photo(id: string, timestamp: number, camera: Partial<Photo> = {}): Photo {
+  return { id, sessionId: 's1', timestamp, ...camera } as unknown as Photo
+}
+
+const canon = { cameraMake: 'Canon', cameraModel: 'EOS R6', cameraSerial: '111' }
+const canon2 = { cameraMake: 'Canon', cameraModel: 'EOS R6', cameraSerial: '222' }
+const iphone = { cameraMake: 'Apple', cameraModel: 'iPhone 15' }
+
+describe('camera-clock', () => {
+  it('should tell cameras apart by make, model and serial', () => {
+    expect(cameraKey(canon)).not.toBe(cameraKey(canon2))
+    expect(cameraKey(iphone)).toBe('Apple|iPhone 15|')
+    expect(cameraKey({})).toBe(UNKNOWN_CAMERA)
+  })
+
+  it('should group photos by camera with their time range, largest first', () => {
+    const groups = groupPhotosByCamera([
+      photo('a', 1000, iphone),
+      photo('b', 3000, canon),
+      photo('c', 2000, canon),
+      photo('d', 5000),
+    ])
+
+    expect(groups.map((g) => [g.key, g.photoCount])).toEqual([
+      [cameraKey(canon), 2],
+      [cameraKey(iphone), 1],
+      [UNKNOWN_CAMERA, 1],
+    ])
+    expect(groups[0]).toMatchObject({
+      startTime: 2000,
+      endTime: 3000,
+      offsetMs: 0,
+      mixedOffsets: false,
+    })
+  })
+
+  it('should flag a camera whose photos have different corrections', () => {
+    const groups = groupPhotosByCamera([
+      withClockOffset(photo('a', 10 * HOUR, canon), HOUR),
+      photo('b', 11 * HOUR, canon),
+      withClockOffset(photo('c', 10 * HOUR, iphone), HOUR),
+    ])
+
+    expect(groups.map((g) => g.mixedOffsets)).toEqual([true, false])
+  })
+
+  it('should give photos the correction their session keeps for the camera', () => {
+    const session = {
+      cameraClockOffsets: { [cameraKey(canon)]: -HOUR },
+    } as unknown as ProcessingSession
+
+    expect(withSessionClockOffset(photo('a', 10 * HOUR, canon), session).timestamp).toBe(9 * HOUR)
+    // Photos reused from another session drop that session's correction
+    const reused = withClockOffset(photo('b', 10 * HOUR, iphone), HOUR)
+    expect(withSessionClockOffset(reused, session).timestamp).toBe(10 * HOUR)
+  })
+
+  it('should replace the offset instead of adding up and keep the recorded time', () => {
+    const shifted = withClockOffset(photo('a', 10 * HOUR), HOUR)
+    expect(shifted.timestamp).toBe(11 * HOUR)
+    expect(shifted.originalTimestamp).toBe(10 * HOUR)
+    expect(clockOffsetOf(shifted)).toBe(HOUR)
+
+    const reshifted = withClockOffset(shifted, -2 * HOUR)
+    expect(reshifted.timestamp).toBe(8 * HOUR)
+    expect(reshifted.originalTimestamp).toBe(10 * HOUR)
+
+    const restored = withClockOffset(reshifted, 0)
+    expect(restored.timestamp).toBe(10 * HOUR)
+    expect(restored.originalTimestamp).toBeUndefined()
+  })
+
+  describe('correctCameraClock', () => {
+    let photos: Photo[]
+    let session: ProcessingSession
+    const put = vi.fn()
+    const putSession = vi.fn()
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      photos = [
+        photo('a', 10 * HOUR, canon),
+        photo('b', 11 * HOUR, canon),
+        photo('c', 10 * HOUR, iphone),
+      ]
+      session = { id: 's1' } as unknown as ProcessingSession
+      // @ts-expect-error -- Mocking specific methods
+      db.getDB.mockResolvedValue({
+        getAllFromIndex: vi.fn(() => Promise.resolve(photos)),
+        transaction: vi.fn(() => ({
+          objectStore: (name: string) =>
+            name === 'sessions'
+              ? { get: vi.fn(() => Promise.resolve(session)), put: putSession }
+              : { put },
+          done: Promise.resolve(),
+        })),
+      })
+    })
+
+    it('should save corrected photos of one camera and re-segment events', async () => {
+      const changed = await correctCameraClock('s1', cameraKey(canon), -HOUR)
+
+      expect(changed).toBe(2)
+      expect(put.mock.calls.map(([p]) => [p.id, p.timestamp, p.originalTimestamp])).toEqual([
+        ['a', 9 * HOUR, 10 * HOUR],
+        ['b', 10 * HOUR, 11 * HOUR],
+      ])
+      expect(segmentSessionEvents).toHaveBeenCalledWith('s1')
+    })
+
+    it('should remember the correction in the session for photos added later', async () => {
+      session.cameraClockOffsets = { [cameraKey(iphone)]: HOUR }
+
+      await correctCameraClock('s1', cameraKey(canon), -HOUR)
+      expect(putSession.mock.calls[0]![0].cameraClockOffsets).toEqual({
+        [cameraKey(iphone)]: HOUR,
+        [cameraKey(canon)]: -HOUR,
+      })
+
+      session = putSession.mock.calls[0]![0]
+      await correctCameraClock('s1', cameraKey(iphone), 0)
+      expect(putSession.mock.calls[1]![0].cameraClockOffsets).toEqual({
+        [cameraKey(canon)]: -HOUR,
+      })
+    })
+
+    it('should do nothing when the offset is already applied', async () => {
+      photos = [withClockOffset(photo('a', 10 * HOUR, canon), HOUR)]
+
+      expect(await correctCameraClock('s1', cameraKey(canon), HOUR)).toBe(0)
+      expect(put).not.toHaveBeenCalled()
+      expect(segmentSessionEvents).not.toHaveBeenCalled()
+    })
+  })
+})
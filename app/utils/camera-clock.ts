@@ -0,0 +1,115 @@
+import type { Photo, ProcessingSession } from './types'
+import { getDB } from './db'
+import { segmentSessionEvents } from './event-detection'
+
+export const UNKNOWN_CAMERA = 'unknown' // Photos without make, model or serial
+
+export interface CameraGroup {
+  key: string
+  make?: string
+  model?: string
+  serial?: string
+  photoCount: number
+  startTime: number // Corrected time of the first photo
+  endTime: number
+  offsetMs: number // Correction currently applied, 0 = clock as recorded
+  mixedOffsets: boolean // Some photos have a different correction than offsetMs
+}
+
+type CameraFields = Pick<Photo, 'cameraMake' | 'cameraModel' | 'cameraSerial'>
+
+export function cameraKey(photo: CameraFields): string {
+  if (!photo.cameraMake && !photo.cameraModel && !photo.cameraSerial) return UNKNOWN_CAMERA
+  return [photo.cameraMake ?? '', photo.cameraModel ?? '', photo.cameraSerial ?? ''].join('|')
+}
+
+export function clockOffsetOf(photo: Pick<Photo, 'timestamp' | 'originalTimestamp'>): number {
+  return photo.originalTimestamp === undefined ? 0 : photo.timestamp - photo.originalTimestamp
+}
+
+/**
+ * The photo shifted by `offsetMs` from its recorded time. Offsets replace each other
+ * instead of adding up, and 0 restores the recorded time.
+ */
+export function withClockOffset(photo: Photo, offsetMs: number): Photo {
+  const recorded = photo.originalTimestamp ?? photo.timestamp
+  return {
+    ...photo,
+    timestamp: recorded + offsetMs,
+    originalTimestamp: offsetMs === 0 ? undefined : recorded,
+  }
+}
+
+/**
+ * Groups photos by the camera that took them, largest group first.
+ */
+export function groupPhotosByCamera(photos: Photo[]): CameraGroup[] {
+  const groups = new Map<string, CameraGroup>()
+  for (const photo of photos) {
+    const key = cameraKey(photo)
+    const group = groups.get(key)
+    if (group) {
+      group.photoCount++
+      group.startTime = Math.min(group.startTime, photo.timestamp)
+      group.endTime = Math.max(group.endTime, photo.timestamp)
+      if (clockOffsetOf(photo) !== group.offsetMs) group.mixedOffsets = true
+    } else {
+      groups.set(key, {
+        key,
+        make: photo.cameraMake,
+        model: photo.cameraModel,
+        serial: photo.cameraSerial,
+        photoCount: 1,
+        startTime: photo.timestamp,
+        endTime: photo.timestamp,
+        offsetMs: clockOffsetOf(photo),
+        mixedOffsets: false,
+      })
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.photoCount - a.photoCount)
+}
+
+/**
+ * The photo with the clock correction its session keeps for its camera, for photos
+ * added after the camera was corrected.
+ */
+export function withSessionClockOffset(photo: Photo, session: ProcessingSession): Photo {
+  const offsetMs = session.cameraClockOffsets?.[cameraKey(photo)] ?? 0
+  return clockOffsetOf(photo) === offsetMs ? photo : withClockOffset(photo, offsetMs)
+}
+
+/**
+ * Sets the clock correction of one camera in a session and saves the corrected
+ * timestamps, keeping the recorded ones in originalTimestamp. The session remembers
+ * the correction so photos added later get it too.
+ *
+ * Events come from timestamps, so the session is segmented again when anything moved.
+ * Returns the number of photos that changed.
+ */
+export async function correctCameraClock(
+  sessionId: string,
+  key: string,
+  offsetMs: number,
+): Promise<number> {
+  const db = await getDB()
+  const photos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+  const changed = photos.filter((p) => cameraKey(p) === key && clockOffsetOf(p) !== offsetMs)
+
+  const tx = db.transaction(['photos', 'sessions'], 'readwrite')
+  const sessions = tx.objectStore('sessions')
+  const session = await sessions.get(sessionId)
+  if (session && (session.cameraClockOffsets?.[key] ?? 0) !== offsetMs) {
+    // 0 is the recorded clock, so the camera is dropped instead of kept at 0
+    const others = Object.entries(session.cameraClockOffsets ?? {}).filter(([k]) => k !== key)
+    if (offsetMs !== 0) others.push([key, offsetMs])
+    await sessions.put({ ...session, cameraClockOffsets: Object.fromEntries(others) })
+  }
+  const store = tx.objectStore('photos')
+  await Promise.all(changed.map((p) => store.put(withClockOffset(p, offsetMs))))
+  await tx.done
+  if (changed.length === 0) return 0
+
+  await segmentSessionEvents(sessionId)
+  return changed.length
+}
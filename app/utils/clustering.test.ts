@@ -1,12 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
+  addToPrototypes,
+  clusterDistance,
   clusterFaces,
   findSimilarClusterPairs,
   mergeClusters,
   CLUSTER_THRESHOLD,
 } from './clustering'
 import * as db from './db'
-import * as faceapi from 'face-api.js'
 import type { Photo, FaceCluster } from './types'
 
 // Mock dependencies
@@ -17,9 +18,7 @@ vi.mock('./db', () => ({
   deleteCluster: vi.fn(),
 }))
 
-vi.mock('face-api.js', () => ({
-  euclideanDistance: vi.fn(),
-}))
+const MONTH = 30 * 24 * 60 * 60 * 1000
 
 describe('clustering', () => {
   const mockDB = {
@@ -48,12 +47,6 @@ describe('clustering', () => {
 
       mockDB.getAllFromIndex.mockResolvedValue([p1, p2])
 
-      // Mock euclideanDistance
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockImplementation((d1: any, d2: any) => {
-        return Math.abs(d1[0] - d2[0])
-      })
-
       // Threshold default 0.4
       // p1 vs p2 dist 0.8 -> new cluster
 
@@ -74,10 +67,6 @@ describe('clustering', () => {
 
       mockDB.getAllFromIndex.mockResolvedValue([p1, p2])
       mockDB.getAllFromIndex.mockResolvedValue([p1, p2])
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockImplementation((d1: any, d2: any) => {
-        return Math.abs(d1[0] - d2[0])
-      })
 
       const result = await clusterFaces('session1')
 
@@ -103,10 +92,6 @@ describe('clustering', () => {
 
       mockDB.getAllFromIndex.mockResolvedValue([p1])
       mockDB.getAllFromIndex.mockResolvedValue([p1])
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockImplementation((d1: any, d2: any) => {
-        return Math.abs(d1[0] - d2[0])
-      })
 
       const result = await clusterFaces('session1')
 
@@ -116,13 +101,62 @@ describe('clustering', () => {
       // old1 is not in session, so it should be kept.
       expect(result[0]!.photoIds).toContain('old1')
     })
+
+    it('should follow a face that changes month by month', async () => {
+      // Each month drifts 0.3 from the previous one, 0.9 from April to July in total
+      const photo = (id: string, month: number, descriptor: number) =>
+        ({
+          id,
+          timestamp: month * MONTH,
+          faces: [{ descriptor: [descriptor], box: {} }],
+        }) as unknown as Photo
+
+      mockDB.getAllFromIndex.mockResolvedValue([
+        photo('jul', 3, 1.0),
+        photo('apr', 0, 0.1),
+        photo('jun', 2, 0.7),
+        photo('may', 1, 0.4),
+      ])
+
+      const result = await clusterFaces('session1')
+
+      expect(result).toHaveLength(1)
+      expect(result[0]!.photoIds).toEqual(['apr', 'may', 'jun', 'jul'])
+      expect(result[0]!.prototypes).toHaveLength(4)
+    })
+  })
+
+  describe('prototypes', () => {
+    it('should keep a running mean per period', () => {
+      const cluster = { descriptor: new Float32Array([0]) } as FaceCluster
+      addToPrototypes(cluster, [0.2], 5 * MONTH)
+      addToPrototypes(cluster, [0.4], 5 * MONTH + 1000)
+      addToPrototypes(cluster, [0.6], 2 * MONTH, 2)
+
+      expect(cluster.prototypes!.map((p) => [p.periodStart, p.count])).toEqual([
+        [2 * MONTH, 2],
+        [5 * MONTH, 2],
+      ])
+      expect(cluster.prototypes![1]!.descriptor[0]).toBeCloseTo(0.3)
+    })
+
+    it('should match against prototypes near the photo date', () => {
+      const cluster = { descriptor: new Float32Array([0]) } as FaceCluster
+      addToPrototypes(cluster, [0.5], 0)
+      addToPrototypes(cluster, [0.9], 10 * MONTH)
+
+      expect(clusterDistance(cluster, [0.9], 10 * MONTH)).toBeCloseTo(0)
+      // March prototype is too far from an April photo, April's is used
+      expect(clusterDistance(cluster, [0.9], 0)).toBeCloseTo(0.4)
+      // Without a prototype nearby, the closest one in time
+      expect(clusterDistance(cluster, [0.9], 3 * MONTH)).toBeCloseTo(0.4)
+      expect(clusterDistance(cluster, [0.1])).toBeCloseTo(0.1)
+    })
   })
 
   describe('findSimilarClusterPairs', () => {
     it('should find pairs within the suggestion range', () => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockReturnValue(0.42) // Between 0.4 and 0.44
-
+      // 0.42 apart: between 0.4 and 0.44
       const clusterA: FaceCluster = {
         id: 'a',
         label: 'Person 1',
@@ -133,7 +167,7 @@ describe('clustering', () => {
       const clusterB: FaceCluster = {
         id: 'b',
         label: 'Person 2',
-        descriptor: new Float32Array([0.5]),
+        descriptor: new Float32Array([0.52]),
         photoIds: ['p2'],
         config: { similarityThreshold: CLUSTER_THRESHOLD },
       }
@@ -143,13 +177,11 @@ describe('clustering', () => {
       expect(pairs).toHaveLength(1)
       expect(pairs[0]!.clusterA.id).toBe('a')
       expect(pairs[0]!.clusterB.id).toBe('b')
-      expect(pairs[0]!.distance).toBe(0.42)
+      expect(pairs[0]!.distance).toBeCloseTo(0.42)
     })
 
     it('should not include pairs outside the suggestion range', () => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockReturnValue(0.7) // Above 0.44
-
+      // 0.8 apart: above 0.44
       const clusterA: FaceCluster = {
         id: 'a',
         label: 'Person 1',
@@ -168,9 +200,6 @@ describe('clustering', () => {
     })
 
     it('should exclude unrecognized and empty clusters', () => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any).mockReturnValue(0.42)
-
       const clusterA: FaceCluster = {
         id: 'unrecognized',
         label: 'Unrecognized',
@@ -180,7 +209,7 @@ describe('clustering', () => {
       const clusterB: FaceCluster = {
         id: 'b',
         label: 'Person 2',
-        descriptor: new Float32Array([0.5]),
+        descriptor: new Float32Array([0.52]),
         photoIds: ['p2'],
       }
       const clusterEmpty: FaceCluster = {
@@ -195,24 +224,41 @@ describe('clustering', () => {
     })
 
     it('should sort pairs by distance ascending', () => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(faceapi.euclideanDistance as any)
-        .mockReturnValueOnce(0.43)
-        .mockReturnValueOnce(0.41)
-        .mockReturnValueOnce(0.42)
-
+      // a-b 0.43, a-c 0.42, b-c 0.41
       const clusters: FaceCluster[] = [
-        { id: 'a', label: 'P1', descriptor: new Float32Array([0.1]), photoIds: ['p1'] },
-        { id: 'b', label: 'P2', descriptor: new Float32Array([0.2]), photoIds: ['p2'] },
-        { id: 'c', label: 'P3', descriptor: new Float32Array([0.3]), photoIds: ['p3'] },
+        { id: 'a', label: 'P1', descriptor: new Float32Array([0, 0]), photoIds: ['p1'] },
+        { id: 'b', label: 'P2', descriptor: new Float32Array([0.43, 0]), photoIds: ['p2'] },
+        { id: 'c', label: 'P3', descriptor: new Float32Array([0.2247, 0.3549]), photoIds: ['p3'] },
       ]
 
       const pairs = findSimilarClusterPairs(clusters)
 
-      expect(pairs).toHaveLength(3)
-      expect(pairs[0]!.distance).toBe(0.41)
-      expect(pairs[1]!.distance).toBe(0.42)
-      expect(pairs[2]!.distance).toBe(0.43)
+      expect(pairs.map((p) => p.clusterA.id + p.clusterB.id)).toEqual(['bc', 'ac', 'ab'])
+      expect(pairs[0]!.distance).toBeCloseTo(0.41)
+      expect(pairs[2]!.distance).toBeCloseTo(0.43)
+    })
+
+    it('should compare clusters around the same date through their prototypes', () => {
+      // Far apart on average, but A's spring faces look like B's
+      const clusterA: FaceCluster = {
+        id: 'a',
+        label: 'Person 1',
+        descriptor: new Float32Array([0.1]),
+        photoIds: ['p1'],
+      }
+      const clusterB: FaceCluster = {
+        id: 'b',
+        label: 'Person 2',
+        descriptor: new Float32Array([0.9]),
+        photoIds: ['p2'],
+      }
+      addToPrototypes(clusterA, [0.48], 10 * MONTH)
+      addToPrototypes(clusterB, [0.9], 10 * MONTH)
+
+      const pairs = findSimilarClusterPairs([clusterA, clusterB])
+
+      expect(pairs).toHaveLength(1)
+      expect(pairs[0]!.distance).toBeCloseTo(0.42)
     })
   })
 
@@ -1,10 +1,99 @@
-import * as faceapi from 'face-api.js'
-import type { Photo, FaceCluster } from './types'
+import type { Photo, FaceCluster, ClusterPrototype } from './types'
 import { getDB, saveCluster, getAllClusters, deleteCluster } from './db'
 
 // Threshold for face similarity. 0.6 is standard for dlib/face-api.js
 export const CLUSTER_THRESHOLD = 0.4
 
+// Children's faces change over a school year, so besides the centroid every cluster
+// keeps a prototype per period. Faces are compared with prototypes within
+// PROTOTYPE_REACH periods of their photo.
+const PROTOTYPE_PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+const PROTOTYPE_REACH = 1
+
+function periodStartOf(timestamp: number): number {
+  return Math.floor(timestamp / PROTOTYPE_PERIOD_MS) * PROTOTYPE_PERIOD_MS
+}
+
+// Prototypes near the date, or the closest one in time when there are none
+function prototypesNear(
+  prototypes: ReadonlyArray<ClusterPrototype>,
+  timestamp: number | undefined,
+): ReadonlyArray<ClusterPrototype> {
+  if (prototypes.length === 0 || timestamp === undefined || !Number.isFinite(timestamp)) return []
+  const period = periodStartOf(timestamp)
+  const gap = (p: ClusterPrototype) => Math.abs(p.periodStart - period)
+  const near = prototypes.filter((p) => gap(p) <= PROTOTYPE_REACH * PROTOTYPE_PERIOD_MS)
+  if (near.length > 0) return near
+  return [prototypes.reduce((closest, p) => (gap(p) < gap(closest) ? p : closest))]
+}
+
+// Runs for every face against every cluster, so it works on the arrays as they are
+function euclideanDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i]! - (b[i] ?? 0)
+    sum += diff * diff
+  }
+  return Math.sqrt(sum)
+}
+
+/**
+ * Distance from a face to a cluster: the closest of its centroid and its prototypes
+ * near the photo's date.
+ */
+export function clusterDistance(
+  cluster: Pick<FaceCluster, 'descriptor' | 'prototypes'>,
+  descriptor: Float32Array | number[],
+  timestamp?: number,
+): number {
+  let distance = euclideanDistance(descriptor, cluster.descriptor)
+  for (const prototype of prototypesNear(cluster.prototypes ?? [], timestamp)) {
+    distance = Math.min(distance, euclideanDistance(descriptor, prototype.descriptor))
+  }
+  return distance
+}
+
+// Closest of the two centroids and of each cluster's prototypes to the other cluster
+// around the same date, so a child photographed over a year still pairs up
+function clusterPairDistance(a: FaceCluster, b: FaceCluster): number {
+  let distance = euclideanDistance(a.descriptor, b.descriptor)
+  for (const prototype of a.prototypes ?? []) {
+    distance = Math.min(distance, clusterDistance(b, prototype.descriptor, prototype.periodStart))
+  }
+  for (const prototype of b.prototypes ?? []) {
+    distance = Math.min(distance, clusterDistance(a, prototype.descriptor, prototype.periodStart))
+  }
+  return distance
+}
+
+/**
+ * Folds `count` faces with the mean `descriptor` into the prototype of their period.
+ */
+export function addToPrototypes(
+  cluster: FaceCluster,
+  descriptor: Float32Array | number[],
+  timestamp: number,
+  count = 1,
+): void {
+  if (!Number.isFinite(timestamp)) return
+  const periodStart = periodStartOf(timestamp)
+  cluster.prototypes ??= []
+  const prototype = cluster.prototypes.find((p) => p.periodStart === periodStart)
+
+  if (!prototype) {
+    cluster.prototypes.push({ periodStart, descriptor: Float32Array.from(descriptor), count })
+    cluster.prototypes.sort((a, b) => a.periodStart - b.periodStart)
+    return
+  }
+
+  prototype.count += count
+  for (let i = 0; i < prototype.descriptor.length; i++) {
+    const current = prototype.descriptor[i]!
+    prototype.descriptor[i] =
+      current + (((descriptor[i] ?? current) - current) * count) / prototype.count
+  }
+}
+
 export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
   const db = await getDB()
   const photos = await db.getAllFromIndex('photos', 'by-session', sessionId)
@@ -40,6 +129,7 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     box: any
     thumbnail?: Blob
+    timestamp: number
   }[] = []
 
   for (const photo of photos) {
@@ -57,11 +147,15 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
           photoId: photo.id,
           box: face.box,
           thumbnail: face.thumbnail,
+          timestamp: photo.timestamp,
         })
       }
     }
   }
 
+  // Oldest first, so prototypes follow each child through the year
+  facesToCluster.sort((a, b) => a.timestamp - b.timestamp)
+
   const trainedClusters = clusters.filter((c) => !/^(Person|人物) \d+$/.test(c.label))
   console.log(
     `[Cluster] Processing ${facesToCluster.length} faces against ${clusters.length} clusters (${trainedClusters.length} user-trained).`,
@@ -79,10 +173,7 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
       // Use cluster-specific threshold or default
       const threshold = cluster.config?.similarityThreshold ?? CLUSTER_THRESHOLD
 
-      const distance = faceapi.euclideanDistance(
-        Array.from(face.descriptor),
-        Array.from(cluster.descriptor),
-      )
+      const distance = clusterDistance(cluster, face.descriptor, face.timestamp)
 
       if (distance < threshold && distance < minDistance) {
         minDistance = distance
@@ -94,6 +185,7 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
       // Add to existing cluster
       const matched = clusters[bestMatchIndex]!
       matched.photoIds.push(face.photoId)
+      addToPrototypes(matched, face.descriptor, face.timestamp)
       if (!matched.thumbnail && face.thumbnail) {
         matched.thumbnail = face.thumbnail
       }
@@ -102,9 +194,7 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
       if (trainedClusters.length > 0) {
         const distances = trainedClusters.map((c) => ({
           label: c.label,
-          distance: faceapi
-            .euclideanDistance(Array.from(face.descriptor), Array.from(c.descriptor))
-            .toFixed(3),
+          distance: clusterDistance(c, face.descriptor, face.timestamp).toFixed(3),
           threshold: (c.config?.similarityThreshold ?? CLUSTER_THRESHOLD).toFixed(2),
         }))
         console.log(`[Cluster] No match for face in photo ${face.photoId}:`, distances)
@@ -118,6 +208,7 @@ export async function clusterFaces(sessionId: string): Promise<FaceCluster[]> {
         thumbnail: face.thumbnail,
         config: { similarityThreshold: CLUSTER_THRESHOLD },
       }
+      addToPrototypes(newCluster, face.descriptor, face.timestamp)
       clusters.push(newCluster)
     }
   }
@@ -183,6 +274,8 @@ export async function recalculateClusterCentroid(clusterId: string): Promise<voi
 
   // Fetch all target photos and their face descriptors
   const photoFaces: { photoId: string; descriptors: Float32Array[] }[] = []
+  // Capture time of each descriptor's photo, to rebuild the prototypes
+  const timestamps = new Map<Float32Array, number>()
 
   for (const photoId of targetPhotoIds) {
     const photo = (await db.get('photos', photoId)) as Photo | undefined
@@ -193,6 +286,7 @@ export async function recalculateClusterCentroid(clusterId: string): Promise<voi
           ? face.descriptor
           : new Float32Array(face.descriptor),
       )
+      descriptors.forEach((d) => timestamps.set(d, photo.timestamp))
       photoFaces.push({ photoId, descriptors })
     }
   }
@@ -233,8 +327,12 @@ export async function recalculateClusterCentroid(clusterId: string): Promise<voi
   }
 
   // The reference centroid for multi-face disambiguation:
-  // prefer preliminary centroid from single-face photos, fall back to current cluster descriptor
-  const referenceCentroid = preliminaryCentroid ?? cluster.descriptor
+  // prefer preliminary centroid from single-face photos, fall back to current cluster descriptor.
+  // The prototypes still recognise faces from far from the centroid's date.
+  const reference = {
+    descriptor: preliminaryCentroid ?? cluster.descriptor,
+    prototypes: cluster.prototypes,
+  }
 
   // Pass 2: Pick best face from multi-face photos using the reference centroid
   const allDescriptors: Float32Array[] = [...singleFaceDescriptors]
@@ -244,7 +342,7 @@ export async function recalculateClusterCentroid(clusterId: string): Promise<voi
     let bestDist = Infinity
 
     for (const desc of pf.descriptors) {
-      const dist = faceapi.euclideanDistance(Array.from(desc), Array.from(referenceCentroid))
+      const dist = clusterDistance(reference, desc, timestamps.get(desc))
       if (dist < threshold && dist < bestDist) {
         bestDist = dist
         bestFaceDesc = desc
@@ -283,6 +381,10 @@ export async function recalculateClusterCentroid(clusterId: string): Promise<voi
 
     // Update cluster
     cluster.descriptor = mean
+    cluster.prototypes = []
+    for (const desc of allDescriptors) {
+      addToPrototypes(cluster, desc, timestamps.get(desc)!)
+    }
     await saveCluster(cluster)
     console.log(
       `[Cluster] Recalculated centroid for ${cluster.label} using ${allDescriptors.length} faces.`,
@@ -375,7 +477,7 @@ export function findSimilarClusterPairs(clusters: FaceCluster[]): SimilarCluster
       const a = realClusters[i]!
       const b = realClusters[j]!
 
-      const distance = faceapi.euclideanDistance(Array.from(a.descriptor), Array.from(b.descriptor))
+      const distance = clusterPairDistance(a, b)
 
       // Within the "maybe same person" range
       const lowerBound = Math.max(
@@ -398,7 +500,7 @@ export function findSimilarClusterPairs(clusters: FaceCluster[]): SimilarCluster
 /**
  * Merges two clusters into one. The "keep" cluster absorbs the "remove" cluster.
  * - PhotoIds and confirmedPhotoIds are combined
- * - Descriptor is averaged
+ * - Descriptor is averaged, prototypes of the same period too
  * - Label preference: user-given name over auto-generated "Person X"
  * - The "remove" cluster is deleted from DB
  */
@@ -444,6 +546,10 @@ export async function mergeClusters(keepClusterId: string, removeClusterId: stri
     keep.descriptor = mean
   }
 
+  for (const prototype of remove.prototypes ?? []) {
+    addToPrototypes(keep, prototype.descriptor, prototype.periodStart, prototype.count)
+  }
+
   // Save the merged cluster and delete the removed one
   await saveCluster(keep)
   await deleteCluster(remove.id)
@@ -1,5 +1,5 @@
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
-import type { Photo, ProcessingSession, FaceCluster } from './types'
+import type { Photo, ProcessingSession, FaceCluster, PhotoEvent, BurstOverride } from './types'
 
 interface AppDB extends DBSchema {
   photos: {
@@ -15,10 +15,20 @@ interface AppDB extends DBSchema {
     key: string // cluster id
     value: FaceCluster
   }
+  events: {
+    key: string // event id
+    value: PhotoEvent
+    indexes: { 'by-session': string }
+  }
+  burstOverrides: {
+    key: string // photo id
+    value: BurstOverride
+    indexes: { 'by-session': string }
+  }
 }
 
 const DB_NAME = 'photo-selector-db'
-const DB_VERSION = 2
+const DB_VERSION = 4
 
 let dbPromise: Promise<IDBPDatabase<AppDB>>
 
@@ -44,6 +54,14 @@ export function getDB() {
         if (!db.objectStoreNames.contains('clusters')) {
           db.createObjectStore('clusters', { keyPath: 'id' })
         }
+        if (!db.objectStoreNames.contains('events')) {
+          const store = db.createObjectStore('events', { keyPath: 'id' })
+          store.createIndex('by-session', 'sessionId')
+        }
+        if (!db.objectStoreNames.contains('burstOverrides')) {
+          const store = db.createObjectStore('burstOverrides', { keyPath: 'photoId' })
+          store.createIndex('by-session', 'sessionId')
+        }
       },
     })
   }
@@ -66,6 +84,11 @@ export async function getPhotosBySession(sessionId: string) {
   return db.getAllFromIndex('photos', 'by-session', sessionId)
 }
 
+export async function countPhotosBySession(sessionId: string): Promise<number> {
+  const db = await getDB()
+  return db.countFromIndex('photos', 'by-session', sessionId)
+}
+
 export async function getPhotoByHash(hash: string): Promise<Photo | undefined> {
   const db = await getDB()
   return db.getFromIndex('photos', 'by-hash', hash)
@@ -110,12 +133,70 @@ export async function updateClusterLabel(id: string, label: string) {
   }
 }
 
+export async function getEventsBySession(sessionId: string): Promise<PhotoEvent[]> {
+  const db = await getDB()
+  const events = await db.getAllFromIndex('events', 'by-session', sessionId)
+  return events.sort((a, b) => a.startTime - b.startTime)
+}
+
+export async function saveEvent(event: PhotoEvent) {
+  const db = await getDB()
+  return db.put('events', event)
+}
+
+export async function updateEventLabel(id: string, label: string) {
+  const db = await getDB()
+  const event = await db.get('events', id)
+  if (event) {
+    event.label = label
+    return db.put('events', event)
+  }
+}
+
+export async function updateEventLimits(id: string, minPhotos?: number, maxPhotos?: number) {
+  const db = await getDB()
+  const event = await db.get('events', id)
+  if (event) {
+    event.minPhotos = minPhotos
+    event.maxPhotos = maxPhotos
+    return db.put('events', event)
+  }
+}
+
+export async function getBurstOverridesBySession(sessionId: string): Promise<BurstOverride[]> {
+  const db = await getDB()
+  return db.getAllFromIndex('burstOverrides', 'by-session', sessionId)
+}
+
+/**
+ * Merges changes into a photo's burst override; removes it once no flag is set.
+ */
+export async function updateBurstOverride(
+  sessionId: string,
+  photoId: string,
+  changes: Partial<Pick<BurstOverride, 'pinned' | 'splitBefore' | 'keepAll'>>,
+): Promise<BurstOverride | undefined> {
+  const db = await getDB()
+  const override: BurstOverride = {
+    ...((await db.get('burstOverrides', photoId)) ?? { photoId, sessionId }),
+    ...changes,
+  }
+  if (!override.pinned && !override.splitBefore && !override.keepAll) {
+    await db.delete('burstOverrides', photoId)
+    return undefined
+  }
+  await db.put('burstOverrides', override)
+  return override
+}
+
 export async function clearExistingData() {
   console.log('Clearing existing data...')
   const db = await getDB()
   await db.clear('photos')
   await db.clear('sessions')
   await db.clear('clusters')
+  await db.clear('events')
+  await db.clear('burstOverrides')
   console.log('Existing data cleared.')
 }
 
@@ -123,9 +204,11 @@ export async function clearPhotos() {
   console.log('Clearing photos only...')
   const db = await getDB()
 
-  // 1. Clear Photo and Session stores
+  // 1. Clear Photo, Session, Event and burst override stores
   await db.clear('photos')
   await db.clear('sessions')
+  await db.clear('events')
+  await db.clear('burstOverrides')
 
   // 2. Handle clusters:
   //    - DELETE auto-generated clusters (default "Person X" labels)
@@ -210,6 +293,8 @@ export async function exportDatabase() {
   const photos = await db.getAll('photos')
   const sessions = await db.getAll('sessions')
   const clusters = await db.getAll('clusters')
+  const events = await db.getAll('events')
+  const burstOverrides = await db.getAll('burstOverrides')
 
   // Serialize Photos: Convert Blobs to Base64
   const serializedPhotos = await Promise.all(
@@ -255,6 +340,7 @@ export async function exportDatabase() {
       return {
         ...c,
         descriptor: Array.from(c.descriptor), // Float32Array -> Array
+        prototypes: c.prototypes?.map((p) => ({ ...p, descriptor: Array.from(p.descriptor) })),
         thumbnail: thumbnailBase64,
       }
     }),
@@ -266,6 +352,8 @@ export async function exportDatabase() {
     photos: serializedPhotos,
     sessions,
     clusters: serializedClusters,
+    events,
+    burstOverrides,
   }
 
   return JSON.stringify(data)
@@ -331,11 +419,24 @@ export async function importDatabase(jsonString: string) {
       const restoredCluster = {
         ...c,
         descriptor: new Float32Array(c.descriptor),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        prototypes: c.prototypes?.map((p: any) => ({
+          ...p,
+          descriptor: new Float32Array(p.descriptor),
+        })),
         thumbnail: thumbnailBlob,
       }
       await db.put('clusters', restoredCluster)
     }
 
+    // Restore Events and burst overrides (missing in older backups)
+    for (const event of data.events ?? []) {
+      await db.put('events', event)
+    }
+    for (const override of data.burstOverrides ?? []) {
+      await db.put('burstOverrides', override)
+    }
+
     console.log('Database imported successfully')
     return true
   } catch (e) {
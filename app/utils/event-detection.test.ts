@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { detectEvents, eventGapThreshold, segmentSessionEvents } from './event-detection'
+import * as db from './db'
+import type { Photo, PhotoEvent } from './types'
+
+vi.mock('./db', async () => {
+  return { getDB: vi.fn() }
+})
+
+const HOUR = 60 * 60 * 1000
+const MINUTE = 60 * 1000
+
+function photo(id: string, timestamp: number, eventId?: string): Photo {
+  return { id, sessionId: 's1', timestamp, eventId } as unknown as Photo
+}
+
+describe('event-detection', () => {
+  describe('detectEvents', () => {
+    it('should return no events for no photos', () => {
+      expect(detectEvents([])).toEqual([])
+    })
+
+    it('should split at long gaps', () => {
+      const day1 = new Date(2024, 9, 12, 9, 0).getTime()
+      const day2 = new Date(2024, 10, 3, 10, 0).getTime()
+      const photos = [
+        ...[0, 5, 10, 15].map((m, i) => photo(`d1-${i}`, day1 + m * MINUTE)),
+        ...[0, 5, 10].map((m, i) => photo(`d2-${i}`, day2 + m * MINUTE)),
+      ]
+
+      const events = detectEvents(photos)
+
+      expect(events).toHaveLength(2)
+      expect(events[0]!.photos.map((p) => p.id)).toEqual(['d1-0', 'd1-1', 'd1-2', 'd1-3'])
+      expect(events[1]!.startTime).toBe(day2)
+      expect(events[1]!.endTime).toBe(day2 + 10 * MINUTE)
+    })
+
+    it('should not split a dense event at a short break', () => {
+      // Photos every minute, then a 50 minute lunch break
+      const start = new Date(2024, 9, 12, 9, 0).getTime()
+      const photos = [
+        ...Array.from({ length: 10 }, (_, i) => photo(`am${i}`, start + i * MINUTE)),
+        ...Array.from({ length: 10 }, (_, i) => photo(`pm${i}`, start + (60 + i) * MINUTE)),
+      ]
+
+      expect(detectEvents(photos)).toHaveLength(1)
+    })
+
+    it('should adapt the gap to how densely photos were taken', () => {
+      const burst = Array.from({ length: 10 }, (_, i) => photo(`p${i}`, i * 10 * 1000))
+      const sparse = Array.from({ length: 10 }, (_, i) => photo(`p${i}`, i * 30 * MINUTE))
+
+      expect(eventGapThreshold(burst)).toBe(HOUR) // Clamped to the minimum
+      expect(eventGapThreshold(sparse)).toBe(6 * HOUR) // Clamped to the maximum
+      expect(eventGapThreshold([...burst.slice(0, 5), ...sparse.slice(5)])).toBeGreaterThan(HOUR)
+    })
+  })
+
+  describe('segmentSessionEvents', () => {
+    const day1 = new Date(2024, 9, 12, 9, 0).getTime()
+    const day1Afternoon = new Date(2024, 9, 12, 17, 0).getTime()
+    const day2 = new Date(2024, 10, 3, 10, 0).getTime()
+
+    let photos: Photo[]
+    let existing: PhotoEvent[]
+    const put = vi.fn()
+    const del = vi.fn()
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      existing = []
+      photos = [
+        photo('a', day1),
+        photo('b', day1 + 10 * MINUTE),
+        photo('c', day1Afternoon),
+        photo('d', day2),
+      ]
+      const store = { put, delete: del }
+      // @ts-expect-error -- Mocking specific methods
+      db.getDB.mockResolvedValue({
+        getAllFromIndex: vi.fn((storeName: string) =>
+          Promise.resolve(storeName === 'photos' ? photos : existing),
+        ),
+        transaction: vi.fn(() => ({ objectStore: () => store, done: Promise.resolve() })),
+      })
+    })
+
+    it('should save events with default labels and set eventId on photos', async () => {
+      const events = await segmentSessionEvents('s1')
+
+      expect(events.map((e) => e.label)).toEqual(['10月12日', '10月12日 (2)', '11月3日'])
+      expect(events.map((e) => e.photoCount)).toEqual([2, 1, 1])
+      expect(events[0]!.id).toBe(`s1:${day1}`)
+
+      const savedPhotos = put.mock.calls.map(([v]) => v).filter((v) => 'timestamp' in v)
+      expect(savedPhotos.find((p) => p.id === 'b')?.eventId).toBe(`s1:${day1}`)
+      expect(savedPhotos.find((p) => p.id === 'd')?.eventId).toBe(`s1:${day2}`)
+    })
+
+    it('should keep names and limits of an overlapping existing event', async () => {
+      existing = [
+        {
+          id: 'old-sports',
+          sessionId: 's1',
+          label: '運動会',
+          startTime: day1,
+          endTime: day1,
+          photoCount: 1,
+          minPhotos: 2,
+        },
+        {
+          id: 'old-gone',
+          sessionId: 's1',
+          label: '消えた',
+          startTime: day2 + 48 * HOUR,
+          endTime: day2 + 48 * HOUR,
+          photoCount: 1,
+        },
+      ]
+
+      const events = await segmentSessionEvents('s1')
+
+      expect(events[0]).toMatchObject({
+        id: 'old-sports',
+        label: '運動会',
+        photoCount: 2,
+        minPhotos: 2,
+      })
+      expect(del).toHaveBeenCalledWith('old-gone')
+    })
+
+    it('should not rewrite photos that already have the right event', async () => {
+      photos = [photo('a', day1, `s1:${day1}`)]
+
+      await segmentSessionEvents('s1')
+
+      expect(put).toHaveBeenCalledTimes(1) // The event only
+    })
+  })
+})
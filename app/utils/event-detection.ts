@@ -0,0 +1,122 @@
+import type { Photo, PhotoEvent } from './types'
+import { getDB } from './db'
+
+// A gap this many times the typical (median) gap between photos starts a new event,
+// so densely shot days split on shorter breaks than sparse ones
+const EVENT_GAP_FACTOR = 20
+// Bounds for that gap: a lunch break is not a new event, an overnight gap always is
+const MIN_EVENT_GAP_MS = 60 * 60 * 1000
+const MAX_EVENT_GAP_MS = 6 * 60 * 60 * 1000
+
+export interface EventSegment {
+  startTime: number
+  endTime: number
+  photos: Photo[] // Sorted by timestamp
+}
+
+/**
+ * Gap (ms) above which two consecutive photos belong to different events.
+ */
+export function eventGapThreshold(photos: ReadonlyArray<Photo>): number {
+  const sorted = photos.map((p) => p.timestamp).sort((a, b) => a - b)
+  const gaps = sorted.slice(1).map((t, i) => t - sorted[i]!)
+  if (gaps.length === 0) return MIN_EVENT_GAP_MS
+
+  gaps.sort((a, b) => a - b)
+  const median = gaps[Math.floor(gaps.length / 2)]!
+  return Math.min(MAX_EVENT_GAP_MS, Math.max(MIN_EVENT_GAP_MS, median * EVENT_GAP_FACTOR))
+}
+
+/**
+ * Splits photos into events at gaps longer than eventGapThreshold.
+ */
+export function detectEvents(photos: ReadonlyArray<Photo>): EventSegment[] {
+  if (photos.length === 0) return []
+
+  const threshold = eventGapThreshold(photos)
+  const sorted = [...photos].sort((a, b) => a.timestamp - b.timestamp)
+  const segments: EventSegment[] = []
+  let current: Photo[] = [sorted[0]!]
+
+  for (let i = 1; i < sorted.length; i++) {
+    const photo = sorted[i]!
+    if (photo.timestamp - sorted[i - 1]!.timestamp > threshold) {
+      segments.push(toSegment(current))
+      current = [photo]
+    } else {
+      current.push(photo)
+    }
+  }
+
+  segments.push(toSegment(current))
+  return segments
+}
+
+function toSegment(photos: Photo[]): EventSegment {
+  return {
+    startTime: photos[0]!.timestamp,
+    endTime: photos[photos.length - 1]!.timestamp,
+    photos,
+  }
+}
+
+function defaultEventLabel(startTime: number): string {
+  const d = new Date(startTime)
+  return `${d.getMonth() + 1}月${d.getDate()}日`
+}
+
+/**
+ * Detects the events of a session and saves them, setting eventId on every photo.
+ *
+ * Running it again (e.g. after more photos were added) keeps the id, name and
+ * limits of an existing event that overlaps a new one, so user edits survive.
+ */
+export async function segmentSessionEvents(sessionId: string): Promise<PhotoEvent[]> {
+  const db = await getDB()
+  const photos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+  const existing = await db.getAllFromIndex('events', 'by-session', sessionId)
+
+  const segments = detectEvents(photos)
+  const reused = new Set<string>()
+  const labelCounts = new Map<string, number>()
+  const events: PhotoEvent[] = segments.map((segment) => {
+    const previous = existing.find(
+      (e) => !reused.has(e.id) && e.startTime <= segment.endTime && e.endTime >= segment.startTime,
+    )
+    if (previous) reused.add(previous.id)
+
+    // Same-day events get a number: "10月12日", "10月12日 (2)"
+    const dayLabel = defaultEventLabel(segment.startTime)
+    const n = (labelCounts.get(dayLabel) ?? 0) + 1
+    labelCounts.set(dayLabel, n)
+
+    return {
+      id: previous?.id ?? `${sessionId}:${segment.startTime}`,
+      sessionId,
+      label: previous?.label ?? (n > 1 ? `${dayLabel} (${n})` : dayLabel),
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      photoCount: segment.photos.length,
+      minPhotos: previous?.minPhotos,
+      maxPhotos: previous?.maxPhotos,
+    }
+  })
+
+  const tx = db.transaction(['photos', 'events'], 'readwrite')
+  const photoStore = tx.objectStore('photos')
+  const eventStore = tx.objectStore('events')
+  const writes: Promise<unknown>[] = []
+
+  existing.filter((e) => !reused.has(e.id)).forEach((e) => writes.push(eventStore.delete(e.id)))
+  segments.forEach((segment, i) => {
+    const eventId = events[i]!.id
+    writes.push(eventStore.put(events[i]!))
+    segment.photos
+      .filter((p) => p.eventId !== eventId)
+      .forEach((p) => writes.push(photoStore.put({ ...p, eventId })))
+  })
+
+  await Promise.all(writes)
+  await tx.done
+  return events
+}
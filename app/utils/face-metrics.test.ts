@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest'
+import {
+  eyeAspectRatio,
+  eyeAspectRatios,
+  eyesOpenScore,
+  estimateHeadPose,
+  orientationScore,
+  compositionScore,
+  completenessScore,
+  subjectSharpness,
+  type Point,
+} from './face-metrics'
+
+// Builds a 6-point eye of the given width and lid opening, starting at (x, y)
+const makeEye = (x: number, y: number, width: number, opening: number): Point[] => [
+  { x, y }, // outer corner
+  { x: x + width / 3, y: y - opening / 2 }, // upper lid
+  { x: x + (2 * width) / 3, y: y - opening / 2 },
+  { x: x + width, y }, // inner corner
+  { x: x + (2 * width) / 3, y: y + opening / 2 }, // lower lid
+  { x: x + width / 3, y: y + opening / 2 },
+]
+
+// 68 landmarks with only the eye points (36-47) set meaningfully
+const makeLandmarks = (leftOpening: number, rightOpening: number): Point[] => {
+  const points: Point[] = Array.from({ length: 68 }, () => ({ x: 0, y: 0 }))
+  makeEye(30, 50, 30, leftOpening).forEach((p, i) => (points[36 + i] = p))
+  makeEye(70, 50, 30, rightOpening).forEach((p, i) => (points[42 + i] = p))
+  return points
+}
+
+// Frontal face: eye line at y=40, nose root (50,40) -> tip (50,60) -> chin (50,90)
+const makeFace = (noseTip: Point = { x: 50, y: 60 }): Point[] => {
+  const points: Point[] = Array.from({ length: 68 }, () => ({ x: 50, y: 60 }))
+  makeEye(30, 40, 10, 3).forEach((p, i) => (points[36 + i] = p))
+  makeEye(60, 40, 10, 3).forEach((p, i) => (points[42 + i] = p))
+  points[0] = { x: 10, y: 45 }
+  points[16] = { x: 90, y: 45 }
+  points[8] = { x: 50, y: 90 }
+  points[27] = { x: 50, y: 40 }
+  points[30] = noseTip
+  return points
+}
+
+const rotate = (points: Point[], degrees: number): Point[] => {
+  const rad = (degrees * Math.PI) / 180
+  return points.map(({ x, y }) => ({
+    x: x * Math.cos(rad) - y * Math.sin(rad),
+    y: x * Math.sin(rad) + y * Math.cos(rad),
+  }))
+}
+
+describe('face-metrics', () => {
+  describe('eyeAspectRatio', () => {
+    it('should be lid opening divided by eye width', () => {
+      expect(eyeAspectRatio(makeEye(0, 0, 30, 9))).toBeCloseTo(0.3)
+      expect(eyeAspectRatio(makeEye(0, 0, 30, 3))).toBeCloseTo(0.1)
+    })
+
+    it('should return 0 for degenerate input', () => {
+      expect(eyeAspectRatio([])).toBe(0)
+      expect(eyeAspectRatio(makeEye(0, 0, 0, 0))).toBe(0)
+    })
+  })
+
+  describe('eyeAspectRatios', () => {
+    it('should compute each eye separately', () => {
+      const { left, right } = eyeAspectRatios(makeLandmarks(9, 3))
+      expect(left).toBeCloseTo(0.3)
+      expect(right).toBeCloseTo(0.1)
+    })
+  })
+
+  describe('eyesOpenScore', () => {
+    it('should be 1 for open eyes', () => {
+      expect(eyesOpenScore(makeLandmarks(9, 9))).toBe(1)
+    })
+
+    it('should be 0 for closed eyes', () => {
+      expect(eyesOpenScore(makeLandmarks(1, 1))).toBe(0)
+    })
+
+    it('should be in between for half-closed eyes', () => {
+      // EAR 0.2 is halfway between closed (0.15) and open (0.25)
+      expect(eyesOpenScore(makeLandmarks(6, 6))).toBeCloseTo(0.5)
+    })
+
+    it('should not penalise when landmarks are missing', () => {
+      expect(eyesOpenScore([])).toBe(1)
+    })
+  })
+
+  describe('estimateHeadPose', () => {
+    it('should be neutral for a frontal face', () => {
+      const { pan, tilt, roll } = estimateHeadPose(makeFace())
+      expect(pan).toBeCloseTo(0)
+      expect(tilt).toBeCloseTo(0)
+      expect(roll).toBeCloseTo(0)
+    })
+
+    it('should report negative tilt when looking down', () => {
+      // Nose tip pushed towards the chin
+      expect(estimateHeadPose(makeFace({ x: 50, y: 66 })).tilt).toBeCloseTo(-0.8)
+      expect(estimateHeadPose(makeFace({ x: 50, y: 80 })).tilt).toBe(-1)
+    })
+
+    it('should report positive tilt when looking up', () => {
+      expect(estimateHeadPose(makeFace({ x: 50, y: 54 })).tilt).toBeCloseTo(0.8)
+    })
+
+    it('should report pan from the nose offset', () => {
+      expect(estimateHeadPose(makeFace({ x: 60, y: 60 })).pan).toBeCloseTo(0.25)
+      expect(estimateHeadPose(makeFace({ x: 40, y: 60 })).pan).toBeCloseTo(-0.25)
+    })
+
+    it('should measure roll without leaking it into pan or tilt', () => {
+      const { pan, tilt, roll } = estimateHeadPose(rotate(makeFace(), 18))
+      expect(roll).toBeCloseTo(0.4)
+      expect(pan).toBeCloseTo(0)
+      expect(tilt).toBeCloseTo(0)
+    })
+
+    it('should be neutral when landmarks are missing', () => {
+      expect(estimateHeadPose([])).toEqual({ pan: 0, tilt: 0, roll: 0 })
+    })
+  })
+
+  describe('orientationScore', () => {
+    it('should be 1 when facing the camera', () => {
+      expect(orientationScore({})).toBe(1)
+      expect(orientationScore({ panScore: 0, tiltScore: 0, rollScore: 0 })).toBe(1)
+    })
+
+    it('should drop when looking down even if pan is frontal', () => {
+      expect(orientationScore({ panScore: 0, tiltScore: -0.6 })).toBeCloseTo(0.4)
+      expect(orientationScore({ panScore: 0, tiltScore: -1 })).toBe(0)
+    })
+
+    it('should weigh roll less than pan and tilt', () => {
+      expect(orientationScore({ rollScore: 0.6 })).toBeCloseTo(0.7)
+      expect(orientationScore({ panScore: 0.6 })).toBeCloseTo(0.4)
+    })
+  })
+
+  describe('compositionScore', () => {
+    it('should be 0 when the image size is unknown', () => {
+      expect(compositionScore({ x: 0, y: 0, width: 10, height: 10 }, undefined, 100)).toBe(0)
+    })
+
+    it('should be 1 for a large centred face', () => {
+      // 40x40 face in a 100x100 frame (16% area), centred
+      expect(compositionScore({ x: 30, y: 30, width: 40, height: 40 }, 100, 100)).toBe(1)
+    })
+
+    it('should prefer larger faces at the same position', () => {
+      const small = compositionScore({ x: 48, y: 48, width: 4, height: 4 }, 100, 100)
+      const large = compositionScore({ x: 40, y: 40, width: 20, height: 20 }, 100, 100)
+      expect(large).toBeGreaterThan(small)
+    })
+
+    it('should prefer centred faces at the same size', () => {
+      const corner = compositionScore({ x: 0, y: 0, width: 10, height: 10 }, 100, 100)
+      const centre = compositionScore({ x: 45, y: 45, width: 10, height: 10 }, 100, 100)
+      expect(centre).toBeGreaterThan(corner)
+    })
+
+    it('should favour thirds intersections with ruleOfThirds', () => {
+      const box = { x: 28.33, y: 28.33, width: 10, height: 10 } // centred on (1/3, 1/3)
+      const centred = { x: 45, y: 45, width: 10, height: 10 }
+      const options = { ruleOfThirds: true }
+
+      expect(compositionScore(box, 100, 100, options)).toBeGreaterThan(
+        compositionScore(centred, 100, 100, options),
+      )
+      expect(compositionScore(box, 100, 100)).toBeLessThan(compositionScore(centred, 100, 100))
+    })
+  })
+
+  describe('subjectSharpness', () => {
+    it('should average the faces instead of using the whole photo', () => {
+      const faces = [{ sharpnessScore: 0.2 }, { sharpnessScore: 0.4 }]
+      expect(subjectSharpness(0.9, faces)).toBeCloseTo(0.3)
+    })
+
+    it('should fall back to the photo score for faces without one', () => {
+      expect(subjectSharpness(0.8, [{ sharpnessScore: 0.2 }, {}])).toBeCloseTo(0.5)
+      expect(subjectSharpness(0.8, [])).toBe(0.8)
+      expect(subjectSharpness(undefined, [{}])).toBeUndefined()
+    })
+  })
+
+  describe('completenessScore', () => {
+    const box = { x: 5, y: 30, width: 90, height: 65 } // Around makeFace()
+    const shift = (points: Point[], dx: number) => points.map((p) => ({ x: p.x + dx, y: p.y }))
+
+    it('should be 1 for a whole face inside the frame', () => {
+      expect(completenessScore(box, makeFace(), 200, 200)).toBe(1)
+    })
+
+    it('should drop for faces cut off by the frame edge', () => {
+      const cut = completenessScore({ ...box, x: box.x - 50 }, shift(makeFace(), -50), 200, 200)
+      expect(cut).toBeGreaterThan(0)
+      expect(cut).toBeLessThan(0.5)
+    })
+
+    it('should drop when the landmark fit drifts off the face box', () => {
+      const drifted = makeFace().map((p, i) => (i < 17 ? { x: p.x + 100, y: p.y } : p))
+      expect(completenessScore(box, drifted, 200, 200)).toBeCloseTo(51 / 68)
+    })
+
+    it('should drop when a larger face in front covers it', () => {
+      const front = { x: 50, y: 0, width: 150, height: 150 }
+      const behind = { x: 60, y: 60, width: 20, height: 20 }
+
+      expect(completenessScore(box, makeFace(), 200, 200, [front])).toBeLessThan(0.6)
+      expect(completenessScore(box, makeFace(), 200, 200, [behind])).toBe(1)
+    })
+  })
+})
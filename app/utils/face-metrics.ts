@@ -0,0 +1,268 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// 68-point landmark indices (iBUG 300-W layout used by face-api.js)
+// Each eye is 6 points, starting at the outer corner and going clockwise.
+const LEFT_EYE = [36, 37, 38, 39, 40, 41] as const
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47] as const
+const LEFT_JAW = 0 // Right side of the image
+const RIGHT_JAW = 16 // Left side of the image
+const CHIN = 8
+const NOSE_ROOT = 27 // Between the eyes
+const NOSE_TIP = 30
+
+// EAR values for typical closed / fully open eyes.
+// Open eyes are around 0.25-0.35, a blink drops below ~0.15.
+const EAR_CLOSED = 0.15
+const EAR_OPEN = 0.25
+
+// Share of the nose root -> chin distance taken by the nose (root -> tip)
+// on a frontal face. Looking down pushes the nose tip towards the chin.
+const FRONTAL_NOSE_RATIO = 0.4
+// Nose ratio deviation that maps to a full (+-1) tilt
+const NOSE_RATIO_RANGE = 0.15
+// Head roll that maps to a full (+-1) roll score
+const MAX_ROLL_RAD = Math.PI / 4
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+function centroid(points: ReadonlyArray<Point>): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Eye Aspect Ratio (Soukupová & Čech, 2016) for a single eye.
+ *
+ *   EAR = (|p2 - p6| + |p3 - p5|) / (2 * |p1 - p4|)
+ *
+ * Returns 0 if the eye points are degenerate.
+ */
+export function eyeAspectRatio(eye: ReadonlyArray<Point>): number {
+  const [p1, p2, p3, p4, p5, p6] = eye
+  if (!p1 || !p2 || !p3 || !p4 || !p5 || !p6) return 0
+
+  const horizontal = distance(p1, p4)
+  if (horizontal === 0) return 0
+
+  return (distance(p2, p6) + distance(p3, p5)) / (2 * horizontal)
+}
+
+/**
+ * Computes the EAR of each eye from the 68 face landmarks.
+ */
+export function eyeAspectRatios(landmarks: ReadonlyArray<Point>): { left: number; right: number } {
+  return {
+    left: eyeAspectRatio(LEFT_EYE.map((i) => landmarks[i]!)),
+    right: eyeAspectRatio(RIGHT_EYE.map((i) => landmarks[i]!)),
+  }
+}
+
+/**
+ * Maps the average EAR of both eyes to a 0 (closed) to 1 (open) score.
+ */
+export function eyesOpenScore(landmarks: ReadonlyArray<Point>): number {
+  if (landmarks.length < 48) return 1 // Unknown, don't penalise
+
+  const { left, right } = eyeAspectRatios(landmarks)
+  const ear = (left + right) / 2
+  return clamp((ear - EAR_CLOSED) / (EAR_OPEN - EAR_CLOSED), 0, 1)
+}
+
+export interface HeadPose {
+  pan: number // -1 (left) to 1 (right), 0 is front
+  tilt: number // -1 (down) to 1 (up), 0 is front
+  roll: number // -1 (counter-clockwise) to 1 (clockwise), 0 is upright
+}
+
+/**
+ * Estimates head pose from the 68 face landmarks.
+ *
+ * Not a real PnP solve (that needs a 3D reference model), but good enough to
+ * tell "looking at the camera" from "looking away":
+ *   - roll: angle of the line joining the eye centres
+ *   - pan:  offset of the nose tip from the jaw centre, along the eye line
+ *   - tilt: how far down the nose tip sits between nose root and chin,
+ *           measured perpendicular to the eye line so roll does not leak in
+ */
+export function estimateHeadPose(landmarks: ReadonlyArray<Point>): HeadPose {
+  if (landmarks.length < 68) return { pan: 0, tilt: 0, roll: 0 }
+
+  const leftEye = centroid(LEFT_EYE.map((i) => landmarks[i]!))
+  const rightEye = centroid(RIGHT_EYE.map((i) => landmarks[i]!))
+  const eyeDistance = distance(leftEye, rightEye)
+  if (eyeDistance === 0) return { pan: 0, tilt: 0, roll: 0 }
+
+  // Face axes: u along the eye line, v pointing from forehead to chin
+  const u = { x: (rightEye.x - leftEye.x) / eyeDistance, y: (rightEye.y - leftEye.y) / eyeDistance }
+  const v = { x: -u.y, y: u.x }
+  const along = (from: Point, to: Point, axis: Point) =>
+    (to.x - from.x) * axis.x + (to.y - from.y) * axis.y
+
+  const roll = clamp(Math.atan2(u.y, u.x) / MAX_ROLL_RAD, -1, 1)
+
+  const leftJaw = landmarks[LEFT_JAW]!
+  const rightJaw = landmarks[RIGHT_JAW]!
+  const noseTip = landmarks[NOSE_TIP]!
+  const jawCenter = centroid([leftJaw, rightJaw])
+  const halfJaw = Math.abs(along(leftJaw, rightJaw, u)) / 2
+  const pan = halfJaw > 0 ? clamp(along(jawCenter, noseTip, u) / halfJaw, -1, 1) : 0
+
+  const upper = along(landmarks[NOSE_ROOT]!, noseTip, v)
+  const lower = along(noseTip, landmarks[CHIN]!, v)
+  const total = upper + lower
+  const tilt = total > 0 ? clamp((FRONTAL_NOSE_RATIO - upper / total) / NOSE_RATIO_RANGE, -1, 1) : 0
+
+  return { pan, tilt, roll }
+}
+
+/**
+ * Combines pan, tilt and roll into a single "facing the camera" score,
+ * 1 (front) to 0 (turned away). Roll counts half as much: a tilted head
+ * still faces the camera.
+ */
+export function orientationScore(face: {
+  panScore?: number
+  tiltScore?: number
+  rollScore?: number
+}): number {
+  const pan = face.panScore ?? 0
+  const tilt = face.tiltScore ?? 0
+  const roll = (face.rollScore ?? 0) / 2
+  return 1 - Math.min(Math.sqrt(pan * pan + tilt * tilt + roll * roll), 1)
+}
+
+/**
+ * Sharpness that counts for a photo, 0 (blurry) to 1 (sharp): the average over
+ * `faces`, so a sharp background doesn't make up for a blurred subject. Faces
+ * analysed before per-face sharpness use the whole-image `blurScore`.
+ */
+export function subjectSharpness(
+  blurScore: number | undefined,
+  faces: ReadonlyArray<{ sharpnessScore?: number }>,
+): number | undefined {
+  const scores = faces
+    .map((f) => f.sharpnessScore ?? blurScore)
+    .filter((s): s is number => s !== undefined)
+  if (scores.length === 0) return blurScore
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length
+}
+
+// Landmarks may sit this far (share of the box size) outside the box, jaw points
+// lie on its edge. Fits on half-hidden faces drift much further.
+const LANDMARK_BOX_MARGIN = 0.15
+
+// Quality points scorers take off a fully hidden face, less for partly visible ones
+export const INCOMPLETE_FACE_PENALTY = 2
+
+// Faces less visible than this (half cut off or hidden) don't show their subject
+export const MIN_SUBJECT_COMPLETENESS = 0.5
+
+/**
+ * Whether a matched face counts as showing its subject. Faces analysed before
+ * completeness was measured count as fully visible.
+ */
+export function showsSubject(face: { completenessScore?: number }): boolean {
+  return (face.completenessScore ?? 1) >= MIN_SUBJECT_COMPLETENESS
+}
+
+function intersectionArea(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y)
+  return width > 0 && height > 0 ? width * height : 0
+}
+
+/**
+ * How much of a face is visible, 0 (mostly hidden or cut off) to 1 (whole face).
+ *
+ * Multiplies three shares: of the face box inside the frame, of the landmarks that
+ * land inside both the frame and the box (the landmark fit of a partly hidden face
+ * drifts off it), and of the box not covered by larger faces, which are in front.
+ * Everything is in one coordinate system, `otherBoxes` are the photo's other faces.
+ */
+export function completenessScore(
+  box: Rect,
+  landmarks: ReadonlyArray<Point>,
+  imageWidth: number,
+  imageHeight: number,
+  otherBoxes: ReadonlyArray<Rect> = [],
+): number {
+  const area = box.width * box.height
+  if (area <= 0) return 0
+  const frame = { x: 0, y: 0, width: imageWidth, height: imageHeight }
+  const inFrame = intersectionArea(box, frame) / area
+
+  const marginX = box.width * LANDMARK_BOX_MARGIN
+  const marginY = box.height * LANDMARK_BOX_MARGIN
+  const fitted = landmarks.filter(
+    (p) =>
+      p.x >= Math.max(0, box.x - marginX) &&
+      p.x <= Math.min(imageWidth, box.x + box.width + marginX) &&
+      p.y >= Math.max(0, box.y - marginY) &&
+      p.y <= Math.min(imageHeight, box.y + box.height + marginY),
+  ).length
+  const landmarkShare = landmarks.length > 0 ? fitted / landmarks.length : 1
+
+  const covered = otherBoxes
+    .filter((other) => other.width * other.height > area)
+    .reduce((sum, other) => sum + intersectionArea(box, other), 0)
+  const uncovered = 1 - clamp(covered / area, 0, 1)
+
+  return clamp(inFrame, 0, 1) * landmarkShare * uncovered
+}
+
+// Relative face area (face box / frame) that counts as "large enough".
+// A face filling 10% of the frame is already a close-up.
+const FULL_SIZE_AREA_RATIO = 0.1
+const THIRDS = [1 / 3, 2 / 3]
+
+/**
+ * Scores how well a face is framed, 0 (tiny, at the edge) to 1 (large, well placed).
+ *
+ * Half of the score is size (relative area, square-rooted so small faces still
+ * rank), the other half is position: distance of the face centre from the
+ * frame centre or, with `ruleOfThirds`, from the nearest thirds intersection.
+ * Returns 0 when the image size is unknown.
+ */
+export function compositionScore(
+  box: { x: number; y: number; width: number; height: number },
+  imageWidth: number | undefined,
+  imageHeight: number | undefined,
+  options: { ruleOfThirds?: boolean } = {},
+): number {
+  if (!imageWidth || !imageHeight) return 0
+
+  const areaRatio = (box.width * box.height) / (imageWidth * imageHeight)
+  const sizeScore = clamp(Math.sqrt(areaRatio / FULL_SIZE_AREA_RATIO), 0, 1)
+
+  const cx = (box.x + box.width / 2) / imageWidth
+  const cy = (box.y + box.height / 2) / imageHeight
+
+  let positionScore: number
+  if (options.ruleOfThirds) {
+    const nearest = Math.min(
+      ...THIRDS.flatMap((tx) => THIRDS.map((ty) => Math.hypot(cx - tx, cy - ty))),
+    )
+    // Farthest a point can be from every intersection is a frame corner
+    positionScore = 1 - clamp(nearest / Math.hypot(1 / 3, 1 / 3), 0, 1)
+  } else {
+    positionScore = 1 - clamp(Math.hypot(cx - 0.5, cy - 0.5) / Math.hypot(0.5, 0.5), 0, 1)
+  }
+
+  return (sizeScore + positionScore) / 2
+}
@@ -1,9 +1,23 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type * as FaceApi from 'face-api.js'
+import { completenessScore, estimateHeadPose, eyesOpenScore } from './face-metrics'
+import { computeDHash } from './perceptual-hash'
+import {
+  buildLuminancePyramid,
+  detectionScale,
+  exposureStats,
+  faceBrightness,
+  faceSharpness,
+  mapBoxToOriginal,
+  pyramidSharpness,
+  toLuminance,
+} from './image-analysis'
 
 // Environment configuration
 const MODELS_URL = '/models'
 const MIN_CONFIDENCE = 0.45
+// Upper bound for the detection canvas and its pixel data, per worker
+const MEMORY_BUDGET_BYTES = 64 * 1024 * 1024
 
 // NEW: Configuration to easily switch between models
 let useSsdMobilenetv1 = true
@@ -150,67 +164,6 @@ async function loadModels() {
   }
 }
 
-// ----------------------------------------------------------------------
-// Blur Detection (Laplacian Variance)
-// ----------------------------------------------------------------------
-function detectBlur(imageData: ImageData): number {
-  try {
-    const { data, width, height } = imageData
-    // Grayscale
-    const gray = new Uint8Array(width * height)
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i]!
-      const g = data[i + 1]!
-      const b = data[i + 2]!
-      gray[i / 4] = 0.299 * r + 0.587 * g + 0.114 * b
-    }
-
-    // Laplacian Kernel
-    // [0,  1, 0]
-    // [1, -4, 1]
-    // [0,  1, 0]
-    let mean = 0
-    let count = 0
-    const laplacian = new Float32Array(width * height)
-
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = y * width + x
-        const val =
-          gray[idx - width]! + // top
-          gray[idx - 1]! + // left
-          gray[idx + 1]! + // right
-          gray[idx + width]! + // bottom
-          -4 * gray[idx]! // center
-
-        laplacian[idx] = val
-        mean += val
-        count++
-      }
-    }
-    mean /= count
-
-    let variance = 0
-    for (let i = 0; i < laplacian.length; i++) {
-      // Only count inner pixels to match mean calculation context
-      // Simplified: iterate all, edge effect is minimal for large images
-      // For strict correctness we should iterate same loop, but this is fast approx
-      const diff = laplacian[i]! - mean
-      variance += diff * diff
-    }
-    variance /= count
-
-    // Normalize: Variance usually ranges 0-500+ for sharp images.
-    // Heuristic: < 100 is blurry, > 300 is sharp.
-    // Map to 0-1 score.
-    const score = Math.min(Math.max((variance - 50) / 300, 0), 1)
-    return score
-  } catch (e) {
-    console.error('Blur detection failed', e)
-    return 0.5 // Default to neutral
-  }
-}
-
 // ----------------------------------------------------------------------
 // Message Handling
 // ----------------------------------------------------------------------
@@ -234,111 +187,115 @@ self.onmessage = async (e: MessageEvent) => {
       }
       postMessage({ type: 'SET_MODEL_SUCCESS', id })
     } else if (type === 'DETECT') {
-      if (!isLoaded || !currentModelLoaded) await loadModels()
-
-      const { imageBitmap } = payload
-      console.time(`FaceDetection-${id}`)
-
-      let input: any = imageBitmap
-      const width = imageBitmap.width
-      const height = imageBitmap.height
-      let imageData: ImageData | null = null
-
-      if (typeof OffscreenCanvas !== 'undefined') {
-        const canvas = new OffscreenCanvas(imageBitmap.width, imageBitmap.height)
-        const ctx = canvas.getContext('2d')
-        if (ctx) {
-          ctx.drawImage(imageBitmap, 0, 0)
-          input = canvas
-          // Get ImageData for blur detection
-          try {
-            imageData = ctx.getImageData(0, 0, width, height)
-          } catch (e) {
-            console.warn('Failed to get ImageData', e)
+      const imageBitmap: ImageBitmap = payload.imageBitmap
+      // Closed however detection ends; closing it again after the early close is a no-op
+      try {
+        if (!isLoaded || !currentModelLoaded) await loadModels()
+        console.time(`FaceDetection-${id}`)
+
+        const width = imageBitmap.width
+        const height = imageBitmap.height
+        // Everything below works on a bounded-size copy; the full frame is never read back
+        let scale = detectionScale(width, height, MEMORY_BUDGET_BYTES)
+        let input: any = imageBitmap
+        let imageData: ImageData | null = null
+
+        if (typeof OffscreenCanvas !== 'undefined') {
+          const canvas = new OffscreenCanvas(
+            Math.max(1, Math.round(width * scale)),
+            Math.max(1, Math.round(height * scale)),
+          )
+          const ctx = canvas.getContext('2d')
+          if (ctx) {
+            ctx.drawImage(imageBitmap, 0, 0, canvas.width, canvas.height)
+            imageBitmap.close()
+            input = canvas
+            try {
+              imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+            } catch (e) {
+              console.warn('Failed to get ImageData', e)
+            }
           }
         }
-      }
-
-      let options: FaceApi.SsdMobilenetv1Options | FaceApi.TinyFaceDetectorOptions
-
-      if (useSsdMobilenetv1) {
-        options = new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_CONFIDENCE })
-      } else {
-        options = new faceapi.TinyFaceDetectorOptions({
-          inputSize: 512,
-          scoreThreshold: MIN_CONFIDENCE,
-        })
-      }
-
-      // Detect with Expressions
-      const detections = await faceapi
-        .detectAllFaces(input, options)
-        .withFaceLandmarks()
-        .withFaceDescriptors()
-        .withFaceExpressions()
-
-      console.timeEnd(`FaceDetection-${id}`)
-      console.log(
-        `Worker: Detected ${detections.length} faces for ${id} using ${useSsdMobilenetv1 ? 'SSD' : 'Tiny'}`,
-      )
-
-      // Calculate blur score
-      const blurScore = imageData ? detectBlur(imageData) : 0
-
-      const results = detections.map((d) => {
-        // Calculate Pose (Pan/Tilt)
-        // Simple heuristic using nose and eye/jaw landmarks
-        // Not perfect but sufficient for "looking at camera" check
-        // Ideally use PnP algorithm but that requires 3D model reference
-
-        // face-api.js returns 68 points
-        // 30: Nose tip
-        // 0: Left jaw (actually right side of image)
-        // 16: Right jaw (left side of image)
-        // 27: Nose root (between eyes)
-        // 8: Chin
-
-        const nose = d.landmarks.positions[30]
-        const leftJaw = d.landmarks.positions[0]
-        const rightJaw = d.landmarks.positions[16]
-
-        // Pan: deviations of nose from center of jaws
-        const jawWidth = Math.abs(rightJaw!.x - leftJaw!.x)
-        const noseX = nose!.x
-        const centerX = (leftJaw!.x + rightJaw!.x) / 2
-        // If nose is to the right of center (in image), they are looking right
-        // Normalize by jaw width/2
-        const pan = (noseX - centerX) / (jawWidth / 2)
-        // pan 0 = front, -1 = left, 1 = right (approx)
-
-        // Tilt: nose length ratio? Or simple "is nose explicitly high/low"
-        // Just return 0 for now or simple heuristic if needed.
-        // Let's rely on Pan mostly for "looking away".
-        const tilt = 0
-
-        return {
-          detection: d.detection.box,
-          descriptor: d.descriptor,
-          score: d.detection.score,
-          smileScore: d.expressions.happy, // 0-1
-          panScore: pan,
-          tiltScore: tilt,
+        if (input === imageBitmap) scale = 1 // Detecting on the original
+        const inputWidth = Math.max(1, Math.round(width * scale))
+        const inputHeight = Math.max(1, Math.round(height * scale))
+
+        let options: FaceApi.SsdMobilenetv1Options | FaceApi.TinyFaceDetectorOptions
+
+        if (useSsdMobilenetv1) {
+          options = new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_CONFIDENCE })
+        } else {
+          options = new faceapi.TinyFaceDetectorOptions({
+            inputSize: 512,
+            scoreThreshold: MIN_CONFIDENCE,
+          })
         }
-      })
 
-      postMessage({
-        type: 'DETECT_SUCCESS',
-        id,
-        payload: {
-          faces: results,
-          blurScore: blurScore,
-          width,
-          height,
-        },
-      })
+        // Detect with Expressions
+        const detections = await faceapi
+          .detectAllFaces(input, options)
+          .withFaceLandmarks()
+          .withFaceDescriptors()
+          .withFaceExpressions()
+
+        console.timeEnd(`FaceDetection-${id}`)
+        console.log(
+          `Worker: Detected ${detections.length} faces for ${id} using ${useSsdMobilenetv1 ? 'SSD' : 'Tiny'}`,
+        )
+
+        // Blur on a fixed-size luminance pyramid, so scores don't depend on resolution
+        const luminance = imageData ? toLuminance(imageData) : null
+        const blurScore = luminance ? pyramidSharpness(buildLuminancePyramid(luminance)) : 0
+        const exposure = luminance ? exposureStats(luminance) : undefined
+        // Perceptual hash for near-duplicate detection
+        const perceptualHash = imageData ? computeDHash(imageData) : undefined
+
+        const boxes = detections.map((d) => d.detection.box)
+
+        const results = detections.map((d, i) => {
+          // Calculate Pose (Pan/Tilt/Roll) from the 68 landmarks
+          const { pan, tilt, roll } = estimateHeadPose(d.landmarks.positions)
+
+          // Eye openness from the eye aspect ratio of landmarks 36-47
+          const eyesOpen = eyesOpenScore(d.landmarks.positions)
+
+          return {
+            detection: mapBoxToOriginal(d.detection.box, scale),
+            descriptor: d.descriptor,
+            score: d.detection.score,
+            smileScore: d.expressions.happy, // 0-1
+            panScore: pan,
+            tiltScore: tilt,
+            rollScore: roll,
+            eyesOpenScore: eyesOpen,
+            // Box is in detection copy coordinates, like imageData
+            sharpnessScore: imageData ? faceSharpness(imageData, d.detection.box) : undefined,
+            brightness: imageData ? faceBrightness(imageData, d.detection.box) : undefined,
+            completenessScore: completenessScore(
+              d.detection.box,
+              d.landmarks.positions,
+              inputWidth,
+              inputHeight,
+              boxes.filter((_, j) => j !== i),
+            ),
+          }
+        })
 
-      if (imageBitmap && typeof (imageBitmap as any).close === 'function') {
-        ;(imageBitmap as ImageBitmap).close()
+        postMessage({
+          type: 'DETECT_SUCCESS',
+          id,
+          payload: {
+            faces: results,
+            blurScore: blurScore,
+            exposure,
+            perceptualHash,
+            width,
+            height,
+          },
+        })
+      } finally {
+        imageBitmap.close()
       }
     }
   } catch (err: any) {
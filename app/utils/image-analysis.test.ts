@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildLuminancePyramid,
+  detectionScale,
+  exposureScore,
+  exposureStats,
+  faceBrightness,
+  faceSharpness,
+  mapBoxToOriginal,
+  MAX_DETECTION_SIDE,
+  pyramidSharpness,
+  toLuminance,
+} from './image-analysis'
+
+const MB = 1024 * 1024
+
+// RGBA checkerboard with `cell` px squares; larger cells mean softer detail per pixel
+function checkerboard(width: number, height: number, cell: number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 ? 255 : 0
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+// Horizontal ramp without edges
+function gradient(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((x / width) * 255)
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const sharpness = (image: ReturnType<typeof checkerboard>) =>
+  pyramidSharpness(buildLuminancePyramid(toLuminance(image)))
+
+describe('image-analysis', () => {
+  describe('detectionScale', () => {
+    it('should leave small photos alone', () => {
+      expect(detectionScale(1200, 800, 64 * MB)).toBe(1)
+    })
+
+    it('should cap the longest side', () => {
+      expect(detectionScale(6000, 4000, 1024 * MB)).toBeCloseTo(MAX_DETECTION_SIDE / 6000)
+    })
+
+    it('should keep the canvas and its pixel data within the memory budget', () => {
+      const scale = detectionScale(8000, 6000, 16 * MB, 10000)
+      const pixels = Math.round(8000 * scale) * Math.round(6000 * scale)
+      expect(pixels * 8).toBeLessThanOrEqual(16 * MB * 1.01)
+    })
+  })
+
+  it('should map boxes from the scaled copy back to the original', () => {
+    expect(mapBoxToOriginal({ x: 10, y: 20, width: 30, height: 40 }, 0.25)).toEqual({
+      x: 40,
+      y: 80,
+      width: 120,
+      height: 160,
+    })
+  })
+
+  it('should reduce luminance to the requested size', () => {
+    const gray = toLuminance(checkerboard(400, 200, 1), 100)
+    expect([gray.width, gray.height]).toEqual([100, 50])
+    // 4x4 blocks of a 1px checkerboard average to mid gray
+    expect(gray.data[0]).toBeCloseTo(127.5)
+  })
+
+  it('should halve each pyramid level', () => {
+    const pyramid = buildLuminancePyramid(toLuminance(checkerboard(64, 32, 4)))
+    expect(pyramid.map((l) => [l.width, l.height])).toEqual([
+      [64, 32],
+      [32, 16],
+      [16, 8],
+    ])
+  })
+
+  it('should score sharp detail above soft gradients', () => {
+    expect(sharpness(checkerboard(256, 256, 4))).toBeGreaterThan(0.8)
+    expect(sharpness(gradient(256, 256))).toBe(0)
+  })
+
+  it('should give the same score to the same scene at different resolutions', () => {
+    const small = sharpness(checkerboard(1024, 768, 8))
+    const large = sharpness(checkerboard(3072, 2304, 24))
+    expect(large).toBeCloseTo(small, 1)
+  })
+
+  it('should measure face sharpness on the face region only', () => {
+    // Sharp detail on the left half, a smooth ramp on the right
+    const image = gradient(256, 128)
+    const detail = checkerboard(256, 128, 2)
+    for (let y = 0; y < 128; y++) {
+      image.data.set(detail.data.subarray(y * 256 * 4, (y * 256 + 128) * 4), y * 256 * 4)
+    }
+
+    expect(faceSharpness(image, { x: 16, y: 16, width: 96, height: 96 })).toBeGreaterThan(0.8)
+    expect(faceSharpness(image, { x: 144, y: 16, width: 96, height: 96 })).toBe(0)
+  })
+
+  it('should crop regions to the image', () => {
+    const gray = toLuminance(checkerboard(100, 100, 1), 1024, {
+      x: 80,
+      y: -10,
+      width: 40,
+      height: 30,
+    })
+    expect([gray.width, gray.height]).toEqual([20, 20])
+  })
+
+  describe('exposure', () => {
+    // RGBA image filled with one gray level
+    const flat = (level: number) => {
+      const data = new Uint8ClampedArray(16 * 16 * 4).fill(level)
+      return { data, width: 16, height: 16 }
+    }
+
+    it('should report brightness, clipping and contrast from the histogram', () => {
+      const stats = exposureStats(toLuminance(checkerboard(64, 64, 8)))
+      expect(stats.brightness).toBeCloseTo(0.5)
+      expect(stats.shadowClipping).toBeCloseTo(0.5)
+      expect(stats.highlightClipping).toBeCloseTo(0.5)
+      expect(stats.contrast).toBe(1)
+
+      expect(exposureStats(toLuminance(gradient(256, 4))).contrast).toBeCloseTo(0.9, 1)
+    })
+
+    it('should score a dark frame below a well lit one', () => {
+      const dark = exposureStats(toLuminance(gradient(256, 4)))
+      dark.brightness = 0.15
+      const lit = { ...dark, brightness: 0.5 }
+
+      expect(exposureScore(dark)!).toBeLessThan(exposureScore(lit)!)
+      expect(exposureScore(undefined)).toBeUndefined()
+    })
+
+    it('should judge brightness on the faces when they were measured', () => {
+      const stats = { brightness: 0.5, shadowClipping: 0, highlightClipping: 0, contrast: 0.6 }
+      expect(exposureScore(stats)).toBe(1)
+      // Backlit: the frame is fine but the face is dark
+      expect(exposureScore(stats, [{ brightness: 0.1 }])).toBe(0.5)
+    })
+
+    it('should measure face brightness on the face region', () => {
+      expect(faceBrightness(flat(51), { x: 4, y: 4, width: 8, height: 8 })).toBeCloseTo(0.2)
+    })
+  })
+})
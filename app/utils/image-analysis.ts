@@ -0,0 +1,266 @@
+import type { PhotoExposure } from './types'
+
+export interface LuminanceImage {
+  data: Float32Array // 0-255 gray, row-major
+  width: number
+  height: number
+}
+
+export interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Longest side of the copy faces are detected on. Faces that matter in an album
+// stay well above the detectors' minimum size at this resolution.
+export const MAX_DETECTION_SIDE = 1600
+// Canvas pixels plus the ImageData read back from it
+const DETECTION_BYTES_PER_PIXEL = 8
+
+// Blur is measured at a fixed resolution so scores don't depend on the camera's megapixels
+const BLUR_BASE_SIDE = 1024
+const BLUR_PYRAMID_LEVELS = 3 // 1024, 512 and 256 px
+// Fine levels see missed focus, coarse levels see motion blur that smears whole shapes
+const BLUR_LEVEL_WEIGHTS = [0.5, 0.3, 0.2]
+// Laplacian variance: < 100 is blurry, > 300 is sharp
+const BLUR_VARIANCE_FLOOR = 50
+const BLUR_VARIANCE_RANGE = 300
+// Face crops are normalised to this size, their pyramid stops at 64 px
+const FACE_BLUR_SIDE = 128
+const FACE_PYRAMID_LEVELS = 2
+
+// Luminance at or below / at or above these levels counts as crushed / blown out
+const SHADOW_CLIP_LEVEL = 8
+const HIGHLIGHT_CLIP_LEVEL = 247
+// Faces only need their average brightness
+const FACE_EXPOSURE_SIDE = 32
+// A face is best at mid gray; the brightness part of the score reaches 0 this far from it
+const TARGET_BRIGHTNESS = 0.5
+const BRIGHTNESS_TOLERANCE = 0.4
+// Clipped share of the frame that zeroes the clipping part of the score
+const MAX_CLIPPING = 0.25
+// 5th to 95th percentile spread that counts as full contrast
+const FULL_CONTRAST = 0.6
+
+/**
+ * Scale (<= 1) of the copy used for detection: bounded by MAX_DETECTION_SIDE and by
+ * the worker's memory budget for the canvas and its pixel data.
+ */
+export function detectionScale(
+  width: number,
+  height: number,
+  memoryBudgetBytes: number,
+  maxSide = MAX_DETECTION_SIDE,
+): number {
+  const sideScale = maxSide / Math.max(width, height)
+  const budgetScale = Math.sqrt(memoryBudgetBytes / (width * height * DETECTION_BYTES_PER_PIXEL))
+  return Math.min(1, sideScale, budgetScale)
+}
+
+// Box found on a copy scaled by `scale`, in original image coordinates
+export function mapBoxToOriginal(box: Box, scale: number): Box {
+  return {
+    x: box.x / scale,
+    y: box.y / scale,
+    width: box.width / scale,
+    height: box.height / scale,
+  }
+}
+
+/**
+ * Gray copy of RGBA pixels (or of `region` of them), box-averaged down so its longest
+ * side is at most `maxSide`.
+ */
+export function toLuminance(
+  image: { data: ArrayLike<number>; width: number; height: number },
+  maxSide = BLUR_BASE_SIDE,
+  region?: Box,
+): LuminanceImage {
+  const { data, width } = image
+  const x0 = Math.max(0, Math.floor(region?.x ?? 0))
+  const y0 = Math.max(0, Math.floor(region?.y ?? 0))
+  const x1 = Math.min(width, Math.ceil(region ? region.x + region.width : width))
+  const y1 = Math.min(image.height, Math.ceil(region ? region.y + region.height : image.height))
+  const cropWidth = Math.max(1, x1 - x0)
+  const cropHeight = Math.max(1, y1 - y0)
+
+  const scale = Math.min(1, maxSide / Math.max(cropWidth, cropHeight))
+  const outWidth = Math.max(1, Math.round(cropWidth * scale))
+  const outHeight = Math.max(1, Math.round(cropHeight * scale))
+
+  const sums = new Float32Array(outWidth * outHeight)
+  const counts = new Uint32Array(outWidth * outHeight)
+  for (let y = y0; y < y1; y++) {
+    const row = Math.min(outHeight - 1, Math.floor((y - y0) * scale)) * outWidth
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4
+      const cell = row + Math.min(outWidth - 1, Math.floor((x - x0) * scale))
+      sums[cell]! += 0.299 * data[i]! + 0.587 * data[i + 1]! + 0.114 * data[i + 2]!
+      counts[cell]!++
+    }
+  }
+  for (let i = 0; i < sums.length; i++) {
+    if (counts[i]! > 0) sums[i]! /= counts[i]!
+  }
+  return { data: sums, width: outWidth, height: outHeight }
+}
+
+// Half-size image, each pixel the mean of a 2x2 block
+function halve(image: LuminanceImage): LuminanceImage {
+  const width = Math.max(1, Math.floor(image.width / 2))
+  const height = Math.max(1, Math.floor(image.height / 2))
+  const data = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = 2 * y * image.width + 2 * x
+      data[y * width + x] =
+        (image.data[i]! +
+          image.data[i + 1]! +
+          image.data[i + image.width]! +
+          image.data[i + image.width + 1]!) /
+        4
+    }
+  }
+  return { data, width, height }
+}
+
+/**
+ * The image and successively halved copies, finest first. Stops early at tiny sizes.
+ */
+export function buildLuminancePyramid(
+  base: LuminanceImage,
+  levels = BLUR_PYRAMID_LEVELS,
+): LuminanceImage[] {
+  const pyramid = [base]
+  while (pyramid.length < levels) {
+    const last = pyramid[pyramid.length - 1]!
+    if (last.width < 8 || last.height < 8) break
+    pyramid.push(halve(last))
+  }
+  return pyramid
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian over the inner pixels. High values mean sharp edges.
+ */
+export function laplacianVariance(image: LuminanceImage): number {
+  const { data, width, height } = image
+
+  let sum = 0
+  let sumSq = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x
+      const value =
+        data[idx - width]! + data[idx - 1]! + data[idx + 1]! + data[idx + width]! - 4 * data[idx]!
+      sum += value
+      sumSq += value * value
+      count++
+    }
+  }
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSq / count - mean * mean
+}
+
+/**
+ * Sharpness from 0 (blurry) to 1 (sharp), combining the Laplacian variance of every
+ * pyramid level.
+ */
+export function pyramidSharpness(pyramid: LuminanceImage[]): number {
+  let score = 0
+  let totalWeight = 0
+  pyramid.forEach((level, i) => {
+    const weight = BLUR_LEVEL_WEIGHTS[i] ?? 0
+    const variance = laplacianVariance(level)
+    score +=
+      weight * Math.min(Math.max((variance - BLUR_VARIANCE_FLOOR) / BLUR_VARIANCE_RANGE, 0), 1)
+    totalWeight += weight
+  })
+  return totalWeight > 0 ? score / totalWeight : 0
+}
+
+/**
+ * Sharpness of one face, 0 (blurry) to 1 (sharp), measured on its crop so a sharp
+ * background can't hide a motion-blurred subject. `box` is in `image` coordinates.
+ */
+export function faceSharpness(
+  image: { data: ArrayLike<number>; width: number; height: number },
+  box: Box,
+): number {
+  return pyramidSharpness(
+    buildLuminancePyramid(toLuminance(image, FACE_BLUR_SIDE, box), FACE_PYRAMID_LEVELS),
+  )
+}
+
+/**
+ * Brightness histogram statistics of a luminance image.
+ */
+export function exposureStats(image: LuminanceImage): PhotoExposure {
+  const histogram = new Uint32Array(256)
+  for (const value of image.data) histogram[Math.min(255, Math.max(0, Math.round(value)))]!++
+  const total = image.data.length
+
+  let sum = 0
+  let shadows = 0
+  let highlights = 0
+  histogram.forEach((count, level) => {
+    sum += level * count
+    if (level <= SHADOW_CLIP_LEVEL) shadows += count
+    if (level >= HIGHLIGHT_CLIP_LEVEL) highlights += count
+  })
+
+  const percentile = (p: number) => {
+    let seen = 0
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level]!
+      if (seen >= p * total) return level
+    }
+    return 255
+  }
+
+  return {
+    brightness: sum / total / 255,
+    shadowClipping: shadows / total,
+    highlightClipping: highlights / total,
+    contrast: (percentile(0.95) - percentile(0.05)) / 255,
+  }
+}
+
+/**
+ * Mean luminance of one face, 0 (black) to 1 (white). `box` is in `image` coordinates.
+ */
+export function faceBrightness(
+  image: { data: ArrayLike<number>; width: number; height: number },
+  box: Box,
+): number {
+  const { data } = toLuminance(image, FACE_EXPOSURE_SIDE, box)
+  return data.reduce((sum, value) => sum + value, 0) / data.length / 255
+}
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1)
+
+/**
+ * Lighting quality, 0 (badly lit) to 1 (well exposed). Half of it is how close the
+ * faces' brightness is to mid gray (the whole frame's without measured faces), a
+ * quarter each is the lack of clipping and the contrast.
+ */
+export function exposureScore(
+  exposure: PhotoExposure | undefined,
+  faces: ReadonlyArray<{ brightness?: number }> = [],
+): number | undefined {
+  if (!exposure) return undefined
+  const brightness =
+    faces.length > 0
+      ? faces.reduce((sum, f) => sum + (f.brightness ?? exposure.brightness), 0) / faces.length
+      : exposure.brightness
+
+  const level = 1 - clamp01(Math.abs(brightness - TARGET_BRIGHTNESS) / BRIGHTNESS_TOLERANCE)
+  const clipping =
+    1 - clamp01((exposure.shadowClipping + exposure.highlightClipping) / MAX_CLIPPING)
+  const contrast = clamp01(exposure.contrast / FULL_CONTRAST)
+  return level * 0.5 + clipping * 0.25 + contrast * 0.25
+}
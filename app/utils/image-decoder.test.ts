@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeImage,
+  detectImageFormat,
+  extractRawPreview,
+  ImageDecodeError,
+} from './image-decoder'
+
+// Minimal JPEG: SOI, one frame header with the given SOF marker, EOI, padded to `size` bytes
+function jpeg(size: number, sof = 0xc0): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(size)
+  bytes.set([0xff, 0xd8, 0xff, sof, 0x00, 0x0b, 0x08, 0x00, 0x10, 0x00, 0x10, 0x01, 0x01, 0x11])
+  bytes.set([0xff, 0xd9], size - 2)
+  return bytes
+}
+
+interface TestIfd {
+  entries: Array<[tag: number, type: number, values: number[]]>
+}
+
+/**
+ * Little-endian TIFF with the given IFDs chained from IFD0 and the blobs placed after them.
+ * Entry values may reference blobs as `-(index + 1)`, which is replaced by the blob offset,
+ * or IFDs as `-(100 + index)`.
+ */
+function tiff(ifds: TestIfd[], blobs: Uint8Array[], chain = true): ArrayBuffer {
+  const ifdSizes = ifds.map((ifd) => 2 + ifd.entries.length * 12 + 4)
+  const ifdOffsets: number[] = []
+  let offset = 8
+  for (const size of ifdSizes) {
+    ifdOffsets.push(offset)
+    offset += size
+  }
+  const blobOffsets: number[] = []
+  for (const blob of blobs) {
+    blobOffsets.push(offset)
+    offset += blob.length
+  }
+
+  const buffer = new ArrayBuffer(offset)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  view.setUint16(0, 0x4949)
+  view.setUint16(2, 42, true)
+  view.setUint32(4, ifdOffsets[0]!, true)
+
+  const resolve = (value: number) =>
+    value <= -100 ? ifdOffsets[-value - 100]! : value < 0 ? blobOffsets[-value - 1]! : value
+
+  ifds.forEach((ifd, i) => {
+    const base = ifdOffsets[i]!
+    view.setUint16(base, ifd.entries.length, true)
+    ifd.entries.forEach(([tag, type, values], j) => {
+      const entry = base + 2 + j * 12
+      view.setUint16(entry, tag, true)
+      view.setUint16(entry + 2, type, true)
+      view.setUint32(entry + 4, 1, true)
+      if (type === 3) view.setUint16(entry + 8, resolve(values[0]!), true)
+      else view.setUint32(entry + 8, resolve(values[0]!), true)
+    })
+    const next = chain && i + 1 < ifds.length ? ifdOffsets[i + 1]! : 0
+    view.setUint32(base + 2 + ifd.entries.length * 12, next, true)
+  })
+  blobs.forEach((blob, i) => bytes.set(blob, blobOffsets[i]!))
+  return buffer
+}
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+describe('image-decoder', () => {
+  describe('detectImageFormat', () => {
+    it('should detect HEIC and RAW by extension even without a MIME type', () => {
+      expect(detectImageFormat({ name: 'IMG_0001.HEIC', type: '' })).toBe('heic')
+      expect(detectImageFormat({ name: 'photo.heif', type: '' })).toBe('heic')
+      expect(detectImageFormat({ name: 'DSC_0001.NEF', type: '' })).toBe('raw')
+      expect(detectImageFormat({ name: 'a.cr2', type: '' })).toBe('raw')
+      expect(detectImageFormat({ name: 'a.arw', type: '' })).toBe('raw')
+      expect(detectImageFormat({ name: 'a.dng', type: '' })).toBe('raw')
+    })
+
+    it('should detect HEIC by MIME type and treat other images as native', () => {
+      expect(detectImageFormat({ name: 'upload', type: 'image/heic' })).toBe('heic')
+      expect(detectImageFormat({ name: 'a.jpg', type: 'image/jpeg' })).toBe('native')
+      expect(detectImageFormat({ name: 'a.png', type: 'image/png' })).toBe('native')
+    })
+
+    it('should reject files that are not images', () => {
+      expect(detectImageFormat({ name: 'notes.txt', type: 'text/plain' })).toBeNull()
+      expect(detectImageFormat({ name: 'clip.mov', type: 'video/quicktime' })).toBeNull()
+    })
+  })
+
+  describe('extractRawPreview', () => {
+    it('should return the largest JPEG from IFD0 and SubIFDs', async () => {
+      const small = jpeg(64)
+      const large = jpeg(256)
+      const buffer = tiff(
+        [
+          {
+            entries: [
+              [0x014a, 4, [-101]], // SubIFDs -> IFD 1
+              [0x0201, 4, [-1]],
+              [0x0202, 4, [small.length]],
+            ],
+          },
+          {
+            entries: [
+              [0x0103, 3, [6]],
+              [0x0111, 4, [-2]],
+              [0x0117, 4, [large.length]],
+            ],
+          },
+        ],
+        [small, large],
+        false,
+      )
+
+      const preview = extractRawPreview(buffer)
+      expect(preview?.type).toBe('image/jpeg')
+      expect(await bytesOf(preview!)).toEqual(large)
+    })
+
+    it('should follow chained IFDs', async () => {
+      const preview = jpeg(128)
+      const buffer = tiff(
+        [
+          { entries: [[0x0100, 3, [4000]]] },
+          {
+            entries: [
+              [0x0201, 4, [-1]],
+              [0x0202, 4, [preview.length]],
+            ],
+          },
+        ],
+        [preview],
+      )
+
+      expect(await bytesOf(extractRawPreview(buffer)!)).toEqual(preview)
+    })
+
+    it('should skip lossless JPEG raw data browsers cannot decode', async () => {
+      const preview = jpeg(64)
+      const rawData = jpeg(512, 0xc3)
+      const buffer = tiff(
+        [
+          {
+            entries: [
+              [0x0201, 4, [-1]],
+              [0x0202, 4, [preview.length]],
+            ],
+          },
+          {
+            entries: [
+              [0x0103, 3, [7]],
+              [0x0111, 4, [-2]],
+              [0x0117, 4, [rawData.length]],
+            ],
+          },
+        ],
+        [preview, rawData],
+      )
+
+      expect(await bytesOf(extractRawPreview(buffer)!)).toEqual(preview)
+    })
+
+    it('should return null for non-TIFF data or files without a preview', () => {
+      expect(extractRawPreview(jpeg(64).buffer)).toBeNull()
+      expect(extractRawPreview(tiff([{ entries: [[0x0100, 3, [4000]]] }], []))).toBeNull()
+    })
+  })
+
+  describe('decodeImage', () => {
+    it('should return natively supported files unchanged', async () => {
+      const file = new File([jpeg(64)], 'a.jpg', { type: 'image/jpeg' })
+      expect(await decodeImage(file)).toBe(file)
+    })
+
+    it('should return the embedded preview of RAW files', async () => {
+      const preview = jpeg(64)
+      const buffer = tiff(
+        [
+          {
+            entries: [
+              [0x0201, 4, [-1]],
+              [0x0202, 4, [preview.length]],
+            ],
+          },
+        ],
+        [preview],
+      )
+      const decoded = await decodeImage(new File([buffer], 'DSC_0001.NEF'))
+      expect(await bytesOf(decoded)).toEqual(preview)
+    })
+
+    it('should throw ImageDecodeError for unreadable files', async () => {
+      await expect(decodeImage(new File(['x'], 'a.txt', { type: 'text/plain' }))).rejects.toThrow(
+        ImageDecodeError,
+      )
+      await expect(decodeImage(new File([jpeg(64)], 'broken.dng'))).rejects.toThrow(
+        ImageDecodeError,
+      )
+    })
+  })
+})
@@ -0,0 +1,222 @@
+// 'native': the browser decodes it directly, 'heic': iPhone HEIC/HEIF, 'raw': camera RAW
+export type ImageFormat = 'native' | 'heic' | 'raw'
+
+const HEIC_EXTENSIONS = ['heic', 'heif']
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence']
+// TIFF-based RAW formats that carry a full-size JPEG preview
+const RAW_EXTENSIONS = ['cr2', 'nef', 'arw', 'dng']
+const RAW_MIME_TYPES = [
+  'image/x-canon-cr2',
+  'image/x-nikon-nef',
+  'image/x-sony-arw',
+  'image/x-adobe-dng',
+]
+
+// TIFF tags used to locate embedded JPEGs
+const TAG_COMPRESSION = 0x0103
+const TAG_STRIP_OFFSETS = 0x0111
+const TAG_STRIP_BYTE_COUNTS = 0x0117
+const TAG_SUB_IFDS = 0x014a
+const TAG_JPEG_OFFSET = 0x0201
+const TAG_JPEG_LENGTH = 0x0202
+const JPEG_COMPRESSIONS = [6, 7] // Old-style and new-style JPEG
+const MAX_IFDS = 64 // Guard against corrupt IFD chains
+
+const HEIC_JPEG_QUALITY = 0.92
+const RAW_JPEG_QUALITY = 0.92
+
+// Canvas transforms that draw a width x height image upright, per EXIF orientation
+type Transform = [number, number, number, number, number, number]
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => Transform> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (_, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w],
+}
+
+export class ImageDecodeError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'ImageDecodeError'
+  }
+}
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? ''
+
+/**
+ * Decide how a file has to be decoded, or null when it is not an image we can read.
+ * Browsers often leave `type` empty for HEIC and RAW files, so the extension is checked too.
+ */
+export function detectImageFormat(file: Pick<File, 'name' | 'type'>): ImageFormat | null {
+  const ext = extensionOf(file.name)
+  const type = file.type.toLowerCase()
+  if (HEIC_EXTENSIONS.includes(ext) || HEIC_MIME_TYPES.includes(type)) return 'heic'
+  if (RAW_EXTENSIONS.includes(ext) || RAW_MIME_TYPES.includes(type)) return 'raw'
+  if (type.startsWith('image/')) return 'native'
+  return null
+}
+
+// Baseline, extended and progressive JPEGs decode in browsers; lossless (SOF3) RAW data does not
+function isBrowserJpeg(bytes: Uint8Array, start: number, length: number): boolean {
+  const end = Math.min(start + length, bytes.length)
+  if (end - start < 4 || bytes[start] !== 0xff || bytes[start + 1] !== 0xd8) return false
+
+  let pos = start + 2
+  while (pos + 4 <= end) {
+    if (bytes[pos] !== 0xff) return false
+    const marker = bytes[pos + 1]!
+    if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) return true
+    if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return false
+    }
+    pos += 2 + ((bytes[pos + 2]! << 8) | bytes[pos + 3]!)
+  }
+  return false
+}
+
+/**
+ * Largest browser-decodable JPEG embedded in a TIFF-based RAW file (CR2/NEF/ARW/DNG).
+ *
+ * Walks IFD0, its chained IFDs and SubIFDs looking for JPEGInterchangeFormat
+ * previews and single-strip JPEG images. Returns null when none is found.
+ */
+export function extractRawPreview(buffer: ArrayBuffer): Blob | null {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  if (buffer.byteLength < 8) return null
+
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const little = order === 0x4949
+  const u16 = (offset: number) => view.getUint16(offset, little)
+  const u32 = (offset: number) => view.getUint32(offset, little)
+
+  // Values of SHORT (3), LONG (4) and IFD (13) entries, inline when they fit in 4 bytes
+  const readValues = (entry: number): number[] => {
+    const type = u16(entry + 2)
+    const count = u32(entry + 4)
+    const size = type === 3 ? 2 : type === 4 || type === 13 ? 4 : 0
+    if (size === 0) return []
+    const base = count * size <= 4 ? entry + 8 : u32(entry + 8)
+    if (base + count * size > buffer.byteLength) return []
+    return Array.from({ length: count }, (_, i) =>
+      size === 2 ? u16(base + i * 2) : u32(base + i * 4),
+    )
+  }
+
+  const candidates: { offset: number; length: number }[] = []
+  const visited = new Set<number>()
+  const queue = [u32(4)]
+
+  while (queue.length > 0 && visited.size < MAX_IFDS) {
+    const ifd = queue.shift()!
+    if (visited.has(ifd) || ifd < 8 || ifd + 2 > buffer.byteLength) continue
+    visited.add(ifd)
+
+    const entryCount = u16(ifd)
+    if (ifd + 2 + entryCount * 12 + 4 > buffer.byteLength) continue
+    const tags = new Map<number, number[]>()
+    for (let i = 0; i < entryCount; i++) {
+      const entry = ifd + 2 + i * 12
+      tags.set(u16(entry), readValues(entry))
+    }
+
+    const jpegOffset = tags.get(TAG_JPEG_OFFSET)?.[0]
+    const jpegLength = tags.get(TAG_JPEG_LENGTH)?.[0]
+    if (jpegOffset !== undefined && jpegLength !== undefined) {
+      candidates.push({ offset: jpegOffset, length: jpegLength })
+    }
+
+    const compression = tags.get(TAG_COMPRESSION)?.[0]
+    const strips = tags.get(TAG_STRIP_OFFSETS)
+    const stripLengths = tags.get(TAG_STRIP_BYTE_COUNTS)
+    if (
+      compression !== undefined &&
+      JPEG_COMPRESSIONS.includes(compression) &&
+      strips?.length === 1 &&
+      stripLengths?.length === 1
+    ) {
+      candidates.push({ offset: strips[0]!, length: stripLengths[0]! })
+    }
+
+    queue.push(...(tags.get(TAG_SUB_IFDS) ?? []))
+    const next = u32(ifd + 2 + entryCount * 12)
+    if (next !== 0) queue.push(next)
+  }
+
+  const best = candidates
+    .filter((c) => isBrowserJpeg(bytes, c.offset, c.length))
+    .sort((a, b) => b.length - a.length)[0]
+  if (!best) return null
+
+  return new Blob([bytes.slice(best.offset, best.offset + best.length)], { type: 'image/jpeg' })
+}
+
+// Embedded RAW previews carry no orientation of their own, so rotate them like the RAW says
+async function applyOrientation(blob: Blob, orientation: number): Promise<Blob> {
+  const transform = ORIENTATION_TRANSFORMS[orientation]
+  if (!transform) return blob
+
+  const bitmap = await createImageBitmap(blob)
+  const { width, height } = bitmap
+  const swap = orientation >= 5
+  const canvas = new OffscreenCanvas(swap ? height : width, swap ? width : height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    bitmap.close()
+    return blob
+  }
+  ctx.setTransform(...transform(width, height))
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: RAW_JPEG_QUALITY })
+}
+
+/**
+ * Turn an uploaded file into an upright Blob that `createImageBitmap` can decode.
+ *
+ * Natively supported images are returned as-is (browsers apply their EXIF orientation),
+ * RAW files yield their embedded JPEG preview rotated by `orientation`, and HEIC is
+ * converted to JPEG unless the browser (Safari) reads it. HEIF stores its rotation as
+ * a mandatory transform that both decoders apply, so `orientation` is not used there.
+ * Throws ImageDecodeError with a user-facing reason when the file can't be read.
+ */
+export async function decodeImage(file: File, orientation = 1): Promise<Blob> {
+  const format = detectImageFormat(file)
+  if (format === null) {
+    throw new ImageDecodeError('対応していないファイル形式です')
+  }
+
+  if (format === 'raw') {
+    const preview = extractRawPreview(await file.arrayBuffer())
+    if (!preview) {
+      throw new ImageDecodeError('RAWファイルにプレビュー画像が含まれていません')
+    }
+    try {
+      return await applyOrientation(preview, orientation)
+    } catch (err) {
+      throw new ImageDecodeError('RAWのプレビュー画像を読み込めませんでした', { cause: err })
+    }
+  }
+
+  if (format === 'heic') {
+    try {
+      const bitmap = await createImageBitmap(file)
+      bitmap.close()
+      return file
+    } catch {
+      // Not supported natively, convert below
+    }
+    try {
+      const { heicTo } = await import('heic-to')
+      return await heicTo({ blob: file, type: 'image/jpeg', quality: HEIC_JPEG_QUALITY })
+    } catch (err) {
+      throw new ImageDecodeError('HEIC画像を変換できませんでした', { cause: err })
+    }
+  }
+
+  return file
+}
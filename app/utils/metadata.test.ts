@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import ExifReader from 'exifreader'
+import { extractMetadata } from './metadata'
+
+vi.mock('exifreader', () => ({
+  default: { load: vi.fn() },
+}))
+
+type LoadedTags = Awaited<ReturnType<typeof ExifReader.load>>
+
+const tag = (description: string) => ({ description })
+const mockTags = (tags: Record<string, unknown>) =>
+  vi.mocked(ExifReader.load).mockResolvedValueOnce(tags as unknown as LoadedTags)
+const file = new File(['x'], 'a.jpg', { type: 'image/jpeg', lastModified: 1_700_000_000_000 })
+
+describe('metadata', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should read the capture time in its own timezone with sub-seconds', async () => {
+    mockTags({
+      DateTimeOriginal: tag('2024:10:05 09:30:15'),
+      OffsetTimeOriginal: tag('+09:00'),
+      SubSecTimeOriginal: tag('25'),
+    })
+
+    const meta = await extractMetadata(file)
+
+    expect(meta.timestamp).toBe(Date.UTC(2024, 9, 5, 0, 30, 15, 250))
+    expect(meta.offsetMinutes).toBe(540)
+    expect(meta.subSecMs).toBe(250)
+  })
+
+  it('should order photos from cameras in different timezones by real time', async () => {
+    mockTags({
+      DateTimeOriginal: tag('2024:10:05 09:00:00'),
+      OffsetTimeOriginal: tag('+09:00'),
+    })
+    mockTags({
+      DateTimeOriginal: tag('2024:10:05 01:30:00'),
+      OffsetTimeOriginal: tag('+01:00'),
+    })
+
+    const tokyo = await extractMetadata(file)
+    const paris = await extractMetadata(file)
+
+    // 00:00 UTC vs 00:30 UTC despite the later wall-clock time in Tokyo
+    expect(tokyo.timestamp).toBeLessThan(paris.timestamp)
+    expect(paris.timestamp - tokyo.timestamp).toBe(30 * 60_000)
+  })
+
+  it('should use DateTime with its offset tags and read dates without an offset as local time', async () => {
+    mockTags({
+      DateTime: tag('2024:10:05 09:30:15'),
+      OffsetTime: tag('-05:30'),
+      SubSecTime: tag('5'),
+    })
+    expect((await extractMetadata(file)).timestamp).toBe(Date.UTC(2024, 9, 5, 15, 0, 15, 500))
+
+    mockTags({ DateTimeOriginal: tag('2024:10:05 09:30:15') })
+    const meta = await extractMetadata(file)
+    expect(meta.timestamp).toBe(new Date(2024, 9, 5, 9, 30, 15).getTime())
+    expect(meta.offsetMinutes).toBeUndefined()
+  })
+
+  it('should read orientation and camera make, model and serial', async () => {
+    mockTags({
+      DateTimeOriginal: tag('2024:10:05 09:30:15'),
+      Orientation: { value: 6, description: 'right-top' },
+      Make: tag('Canon '),
+      Model: tag('Canon EOS R6'),
+      BodySerialNumber: tag('012345'),
+    })
+
+    const meta = await extractMetadata(file)
+
+    expect(meta.orientation).toBe(6)
+    expect(meta.make).toBe('Canon')
+    expect(meta.model).toBe('Canon EOS R6')
+    expect(meta.serial).toBe('012345')
+  })
+
+  it('should fall back to the file date and upright orientation', async () => {
+    mockTags({ Orientation: { value: 42, description: '' } })
+    const meta = await extractMetadata(file)
+    expect(meta.timestamp).toBe(file.lastModified)
+    expect(meta.orientation).toBe(1)
+
+    vi.mocked(ExifReader.load).mockRejectedValue(new Error('No Exif data'))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(await extractMetadata(file)).toEqual({
+      timestamp: file.lastModified,
+      dateStr: new Date(file.lastModified).toISOString(),
+      orientation: 1,
+    })
+  })
+})
@@ -3,23 +3,73 @@ import ExifReader from 'exifreader'
 export interface ImageMetadata {
   timestamp: number
   dateStr: string
+  orientation: number // EXIF orientation 1-8, 1 = upright
+  offsetMinutes?: number // Capture timezone offset from UTC, e.g. 540 for +09:00
+  subSecMs?: number // Sub-second part of the capture time
+  make?: string
+  model?: string
+  serial?: string // Body serial, tells apart two cameras of the same model
 }
 
+// "+09:00" / "-05:30" -> minutes east of UTC
+function parseOffset(offset: string | undefined): number | undefined {
+  const match = offset?.trim().match(/^([+-])(\d{2}):?(\d{2})$/)
+  if (!match) return undefined
+  const minutes = Number(match[2]) * 60 + Number(match[3])
+  return match[1] === '-' ? -minutes : minutes
+}
+
+// "123" -> 123ms, "5" -> 500ms (digits are a decimal fraction of a second)
+function parseSubSec(subSec: string | undefined): number | undefined {
+  const digits = subSec?.trim().match(/^\d+/)?.[0]
+  if (!digits) return undefined
+  return Math.round(Number(`0.${digits}`) * 1000)
+}
+
+/**
+ * Capture instant of an EXIF "YYYY:MM:DD HH:MM:SS" date.
+ * With a known offset the result is exact, otherwise the date is read as local time
+ * of the browser (the best guess for photos without OffsetTimeOriginal).
+ */
+function parseExifDate(dateStr: string, offsetMinutes?: number, subSecMs = 0): number {
+  const match = dateStr.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return NaN
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ]
+  if (offsetMinutes !== undefined) {
+    return Date.UTC(year, month - 1, day, hour, minute, second, subSecMs) - offsetMinutes * 60_000
+  }
+  return new Date(year, month - 1, day, hour, minute, second, subSecMs).getTime()
+}
+
+const tagText = (tag: { description: string } | undefined) => tag?.description.trim() || undefined
+
 export async function extractMetadata(file: File): Promise<ImageMetadata> {
   try {
     const tags = await ExifReader.load(file)
-    // Standard Exif Date
+    // Standard Exif Date, with its matching offset and sub-second tags
     let dateStr = tags['DateTimeOriginal']?.description
+    let offset = tags['OffsetTimeOriginal']?.description
+    let subSec = tags['SubSecTimeOriginal']?.description
     if (!dateStr) {
       dateStr = tags['DateTime']?.description
+      offset = tags['OffsetTime']?.description
+      subSec = tags['SubSecTime']?.description
     }
 
+    const orientation = tags['Orientation']?.value
+    const offsetMinutes = parseOffset(offset)
+    const subSecMs = parseSubSec(subSec)
+
     let timestamp = 0
     if (dateStr) {
-      // Exif date format is usually "YYYY:MM:DD HH:MM:SS"
-      // Convert to "YYYY-MM-DD HH:MM:SS" for Date.parse
-      const isoStr = dateStr.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3')
-      timestamp = Date.parse(isoStr)
+      timestamp = parseExifDate(dateStr, offsetMinutes, subSecMs)
     }
 
     // Fallback to file last modified if no EXIF
@@ -31,12 +81,19 @@ export async function extractMetadata(file: File): Promise<ImageMetadata> {
     return {
       timestamp,
       dateStr: dateStr || new Date(timestamp).toISOString(),
+      orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      offsetMinutes,
+      subSecMs,
+      make: tagText(tags['Make']),
+      model: tagText(tags['Model']),
+      serial: tagText(tags['BodySerialNumber']) ?? tagText(tags['SerialNumber']),
     }
   } catch (e) {
     console.warn('Failed to read EXIF', e)
     return {
       timestamp: file.lastModified,
       dateStr: new Date(file.lastModified).toISOString(),
+      orientation: 1,
     }
   }
 }
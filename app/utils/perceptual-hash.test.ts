@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { computeDHash, hammingDistance, hashToWords } from './perceptual-hash'
+
+// RGBA image from a grayscale function of the relative position (0-1)
+function image(width: number, height: number, gray: (u: number, v: number) => number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = gray(x / width, y / height)
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const distance = (a: string, b: string) => hammingDistance(hashToWords(a), hashToWords(b))
+
+// A scene with some structure: diagonal bands and a bright spot
+const scene = (u: number, v: number) =>
+  128 + 80 * Math.sin(9 * u + 5 * v) + (Math.hypot(u - 0.3, v - 0.6) < 0.15 ? 60 : 0)
+
+describe('perceptual-hash', () => {
+  it('should return 16 hex characters', () => {
+    expect(computeDHash(image(90, 80, scene))).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('should set a bit when a cell is brighter than its right neighbour', () => {
+    const darkening = computeDHash(image(90, 80, (u) => 255 - u * 255))
+    const brightening = computeDHash(image(90, 80, (u) => u * 255))
+
+    expect(darkening).toBe('ffffffffffffffff')
+    expect(brightening).toBe('0000000000000000')
+  })
+
+  it('should barely change when the photo is resized or brightened', () => {
+    const original = computeDHash(image(180, 160, scene))
+    const resized = computeDHash(image(63, 41, scene))
+    const brighter = computeDHash(image(180, 160, (u, v) => scene(u, v) * 0.9 + 20))
+
+    expect(distance(original, resized)).toBeLessThanOrEqual(6)
+    expect(distance(original, brighter)).toBeLessThanOrEqual(2)
+  })
+
+  it('should differ a lot for a different photo', () => {
+    const original = computeDHash(image(90, 80, scene))
+    const other = computeDHash(image(90, 80, (u, v) => 128 + 100 * Math.cos(13 * v - 4 * u)))
+
+    expect(distance(original, other)).toBeGreaterThan(16)
+  })
+
+  it('should count differing bits', () => {
+    expect(distance('0000000000000000', '0000000000000000')).toBe(0)
+    expect(distance('0000000000000000', 'ffffffffffffffff')).toBe(64)
+    expect(distance('8000000000000001', '0000000000000000')).toBe(2)
+  })
+})
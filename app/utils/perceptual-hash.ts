@@ -0,0 +1,63 @@
+// dHash compares neighbouring cells of a 9x8 grayscale thumbnail: 8x8 = 64 bits
+const HASH_GRID_WIDTH = 9
+const HASH_GRID_HEIGHT = 8
+
+export type HashWords = [number, number] // High and low 32 bits
+
+/**
+ * Difference hash (dHash) of an image as 16 hex characters.
+ *
+ * The image is box-averaged down to 9x8 grayscale cells and each bit says
+ * whether a cell is brighter than its right neighbour. Re-encoding, resizing
+ * and small brightness changes keep most bits, so visually similar photos
+ * have hashes a few bits apart.
+ */
+export function computeDHash(image: {
+  data: ArrayLike<number>
+  width: number
+  height: number
+}): string {
+  const { data, width, height } = image
+  const sums = new Float64Array(HASH_GRID_WIDTH * HASH_GRID_HEIGHT)
+  const counts = new Uint32Array(HASH_GRID_WIDTH * HASH_GRID_HEIGHT)
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * HASH_GRID_HEIGHT) / height) * HASH_GRID_WIDTH
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      const cell = row + Math.floor((x * HASH_GRID_WIDTH) / width)
+      sums[cell]! += 0.299 * data[i]! + 0.587 * data[i + 1]! + 0.114 * data[i + 2]!
+      counts[cell]!++
+    }
+  }
+  const gray = Array.from(sums, (sum, cell) => (counts[cell]! > 0 ? sum / counts[cell]! : 0))
+
+  let hex = ''
+  for (let y = 0; y < HASH_GRID_HEIGHT; y++) {
+    let byte = 0
+    for (let x = 0; x < HASH_GRID_WIDTH - 1; x++) {
+      const left = gray[y * HASH_GRID_WIDTH + x]!
+      const right = gray[y * HASH_GRID_WIDTH + x + 1]!
+      byte = (byte << 1) | (left > right ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+export function hashToWords(hash: string): HashWords {
+  return [parseInt(hash.slice(0, 8), 16) >>> 0, parseInt(hash.slice(8, 16), 16) >>> 0]
+}
+
+function popCount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555)
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333)
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+/**
+ * Number of differing bits between two hashes (0 = identical, 64 = opposite).
+ */
+export function hammingDistance(a: HashWords, b: HashWords): number {
+  return popCount((a[0] ^ b[0]) >>> 0) + popCount((a[1] ^ b[1]) >>> 0)
+}
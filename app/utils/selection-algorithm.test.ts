@@ -1,8 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { selectGroupBalancedPhotos, selectGrowthPhotos } from './selection-algorithm'
+import {
+  selectGroupBalancedPhotos,
+  selectGroupBalancedPhotosWithReport,
+  selectGrowthPhotos,
+  selectSmilePhotos,
+  selectConnectionPhotos,
+  selectBestShotPhotos,
+  explainSkippedPhotos,
+} from './selection-algorithm'
 import * as db from './db'
 import * as burstDetection from './burst-detection'
-import * as faceapi from 'face-api.js'
 import type { Photo, FaceCluster } from './types'
 
 // Mock dependencies
@@ -10,11 +17,11 @@ vi.mock('./db', async () => {
   return { getDB: vi.fn() }
 })
 vi.mock('./burst-detection', async () => {
-  return { deduplicateBurstPhotos: vi.fn((photos) => photos) }
+  return {
+    deduplicateBurstPhotos: vi.fn((photos) => photos),
+    groupNearDuplicatePhotos: vi.fn(() => []),
+  }
 })
-vi.mock('face-api.js', async () => ({
-  euclideanDistance: vi.fn(),
-}))
 
 describe('selection-algorithm', () => {
   const mockDB = {
@@ -61,11 +68,6 @@ describe('selection-algorithm', () => {
       // @ts-expect-error -- Mocking return value
       burstDetection.deduplicateBurstPhotos.mockReturnValue([p1, p2, p3])
 
-      // Mock face matching
-      vi.mocked(faceapi.euclideanDistance).mockImplementation((d1: unknown, d2: unknown) => {
-        return Math.abs((d1 as number[])[0]! - (d2 as number[])[0]!) // Simple distance
-      })
-
       // Threshold is default 0.4.
       // p1 (0.1) vs A (0.1) -> 0. Match A.
       // p1 vs B (0.2) -> 0.1. match B. wait, distance between 0.1 and 0.2 is 0.1.
@@ -131,9 +133,6 @@ describe('selection-algorithm', () => {
       mockDB.getAllFromIndex.mockResolvedValue([twoShot, soloA, soloB1, soloB2])
       // @ts-expect-error -- Mocking return value
       burstDetection.deduplicateBurstPhotos.mockReturnValue([twoShot, soloA, soloB1, soloB2])
-      vi.mocked(faceapi.euclideanDistance).mockImplementation((d1: unknown, d2: unknown) => {
-        return Math.abs((d1 as number[])[0]! - (d2 as number[])[0]!)
-      })
 
       const result = await selectGroupBalancedPhotos('session1', [clusterA, clusterB], 3)
 
@@ -181,19 +180,14 @@ describe('selection-algorithm', () => {
       mockDB.getAllFromIndex.mockResolvedValue([twoShot, soloA, soloB])
       // @ts-expect-error -- Mocking return value
       burstDetection.deduplicateBurstPhotos.mockReturnValue([twoShot, soloA, soloB])
-      vi.mocked(faceapi.euclideanDistance).mockImplementation((d1: unknown, d2: unknown) => {
-        return Math.abs((d1 as number[])[0]! - (d2 as number[])[0]!)
-      })
 
       const result = await selectGroupBalancedPhotos('session1', [clusterA, clusterB], 2)
 
       expect(result).toHaveLength(2)
       const ids = result.map((p) => p.id)
-      // Must include two-shot
-      expect(ids).toContain('ts1')
-      // Second photo: both solo-A and solo-B score equally since both are at minCount.
-      // Either is acceptable for balance.
-      expect(ids.some((id) => id === 'sa1' || id === 'sb1')).toBe(true)
+      // Greedy picks the two-shot first and ends at A=2, B=1 (or A=1, B=2).
+      // The solver finds the perfectly balanced A=1, B=1 instead.
+      expect(ids).toEqual(['sa1', 'sb1'])
     })
 
     it('should prefer balanced singles over unbalanced pairs (Fairness over Efficiency)', async () => {
@@ -285,9 +279,6 @@ describe('selection-algorithm', () => {
         singleA2,
         singleB2,
       ])
-      vi.mocked(faceapi.euclideanDistance).mockImplementation((d1: unknown, d2: unknown) => {
-        return Math.abs((d1 as number[])[0]! - (d2 as number[])[0]!)
-      })
 
       const result = await selectGroupBalancedPhotos(
         'session1',
@@ -316,6 +307,550 @@ describe('selection-algorithm', () => {
       expect(hasA).toBe(true)
       expect(hasB).toBe(true)
     })
+
+    it('should avoid closed-eye photos when eyesOpen weight is set', async () => {
+      const blink = {
+        id: 'blink',
+        timestamp: 100,
+        faces: [{ descriptor: [0.1], box: { x: 0, width: 100 }, eyesOpenScore: 0 }],
+      } as unknown as Photo
+      const open = {
+        id: 'open',
+        timestamp: 200,
+        faces: [{ descriptor: [0.1], box: { x: 0, width: 100 }, eyesOpenScore: 1 }],
+      } as unknown as Photo
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue([blink, open])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue([blink, open])
+
+      const result = await selectGroupBalancedPhotos('session1', [clusterA], 1, {
+        smile: 0,
+        faceScore: 0,
+        orientation: 0,
+        blur: 0,
+        exposure: 0,
+        eyesOpen: 1,
+        composition: 0,
+        timeSpread: 0,
+        groupBalance: 0.5,
+      })
+
+      expect(result.map((p) => p.id)).toEqual(['open'])
+    })
+
+    it('should not treat faces looking down as facing the camera', async () => {
+      const down = {
+        id: 'down',
+        timestamp: 100,
+        faces: [{ descriptor: [0.1], box: { x: 0, width: 100 }, panScore: 0, tiltScore: -0.9 }],
+      } as unknown as Photo
+      const front = {
+        id: 'front',
+        timestamp: 200,
+        faces: [{ descriptor: [0.1], box: { x: 0, width: 100 }, panScore: 0.2, tiltScore: 0 }],
+      } as unknown as Photo
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue([down, front])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue([down, front])
+
+      const result = await selectGroupBalancedPhotos('session1', [clusterA], 1, {
+        smile: 0,
+        faceScore: 0,
+        orientation: 1,
+        blur: 0,
+        exposure: 0,
+        eyesOpen: 0,
+        composition: 0,
+        timeSpread: 0,
+        groupBalance: 0.5,
+      })
+
+      expect(result.map((p) => p.id)).toEqual(['front'])
+    })
+  })
+
+  describe('selectGroupBalancedPhotosWithReport', () => {
+    const photo = (id: string, timestamp: number, descriptors: number[]) =>
+      ({
+        id,
+        timestamp,
+        faces: descriptors.map((d) => ({ descriptor: [d], box: { x: 0, width: 100 } })),
+      }) as unknown as Photo
+    const cluster = (id: string, d: number) =>
+      ({ id, descriptor: [d], config: { similarityThreshold: 0.05 } }) as unknown as FaceCluster
+
+    const A = cluster('A', 0.1)
+    const B = cluster('B', 0.2)
+    const C = cluster('C', 0.3)
+
+    const usePhotos = (photos: Photo[]) => {
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+    }
+
+    it('should stay within tolerance where the greedy heuristic does not', async () => {
+      // Greedy takes ABC (balanced), then AC, then C: A=2, B=1, C=3.
+      // ABC + A + C gives A=2, B=1, C=2, within the default tolerance of 1.
+      usePhotos([
+        photo('ac', 100, [0.1, 0.3]),
+        photo('c', 200, [0.3]),
+        photo('a', 300, [0.1]),
+        photo('abc', 400, [0.1, 0.2, 0.3]),
+      ])
+
+      const greedy = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        3,
+        undefined,
+        {
+          maxNodes: 0, // No search: only the greedy result is available
+        },
+      )
+      expect(greedy.photos.map((p) => p.id)).toEqual(['ac', 'c', 'abc'])
+      expect(greedy.report).toMatchObject({
+        solver: 'greedy',
+        feasible: false,
+        counts: { A: 2, B: 1, C: 3 },
+      })
+
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B, C], 3)
+      expect(result.photos.map((p) => p.id)).toEqual(['c', 'a', 'abc'])
+      expect(result.report).toEqual({
+        solver: 'optimal',
+        feasible: true,
+        tolerance: 1,
+        counts: { A: 2, B: 1, C: 2 },
+        missingSubjects: [],
+        quotas: [],
+      })
+    })
+
+    it('should report infeasible constraints and fall back to greedy', async () => {
+      // No 3 of these give A = B = C
+      usePhotos([
+        photo('ab1', 100, [0.1, 0.2]),
+        photo('ab2', 200, [0.1, 0.2]),
+        photo('c1', 300, [0.3]),
+        photo('ac1', 400, [0.1, 0.3]),
+      ])
+
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        3,
+        undefined,
+        {
+          tolerance: 0,
+        },
+      )
+
+      expect(result.photos.map((p) => p.id)).toEqual(['ab1', 'ab2', 'c1'])
+      expect(result.report).toMatchObject({ solver: 'greedy', feasible: false, tolerance: 0 })
+    })
+
+    it('should allow a group shot within a looser tolerance', async () => {
+      const D = cluster('D', 0.4)
+      usePhotos([
+        photo('pairAB', 100, [0.1, 0.2]),
+        photo('singleA', 200, [0.1]),
+        photo('singleB', 300, [0.2]),
+        photo('singleC', 400, [0.3]),
+        photo('singleD', 500, [0.4]),
+      ])
+      const weights = {
+        smile: 0,
+        faceScore: 0,
+        orientation: 0,
+        blur: 0,
+        exposure: 0,
+        eyesOpen: 0,
+        composition: 0,
+        timeSpread: 0,
+        groupBalance: 1, // Prefer group photos
+      }
+
+      const strict = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C, D],
+        4,
+        weights,
+        {
+          tolerance: 0,
+        },
+      )
+      expect(strict.photos.map((p) => p.id)).not.toContain('pairAB')
+      expect(strict.report?.counts).toEqual({ A: 1, B: 1, C: 1, D: 1 })
+
+      const loose = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C, D],
+        4,
+        weights,
+        {
+          tolerance: 1,
+        },
+      )
+      expect(loose.photos.map((p) => p.id)).toContain('pairAB')
+      expect(loose.report?.feasible).toBe(true)
+    })
+
+    it('should report subjects without photos and balance the rest', async () => {
+      const D = cluster('D', 0.4)
+      usePhotos([
+        photo('a1', 100, [0.1]),
+        photo('a2', 200, [0.1]),
+        photo('b1', 300, [0.2]),
+        photo('c1', 400, [0.3]),
+      ])
+
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C, D],
+        3,
+        undefined,
+        {
+          tolerance: 0,
+        },
+      )
+
+      expect(result.photos.map((p) => p.id)).toEqual(['a1', 'b1', 'c1'])
+      expect(result.report).toMatchObject({
+        solver: 'optimal',
+        feasible: true,
+        counts: { A: 1, B: 1, C: 1, D: 0 },
+        missingSubjects: ['D'],
+      })
+    })
+  })
+
+  describe('group mode time spread', () => {
+    const A = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+    const B = { id: 'B', descriptor: [0.9] } as unknown as FaceCluster
+    const photo = (id: string, date: Date, d: number) =>
+      ({
+        id,
+        timestamp: date.getTime(),
+        faces: [{ descriptor: [d], box: { x: 0, width: 100 } }],
+      }) as unknown as Photo
+
+    // A busy sports day in April, a few photos in June and September
+    const photos = [
+      ...[0, 1, 2].map((i) => photo(`aApr${i}`, new Date(2024, 3, 10, 10, i * 10), 0.1)),
+      ...[0, 1, 2].map((i) => photo(`bApr${i}`, new Date(2024, 3, 10, 11, i * 10), 0.9)),
+      photo('aJun', new Date(2024, 5, 5, 9, 0), 0.1),
+      photo('bJun', new Date(2024, 5, 5, 9, 30), 0.9),
+      photo('aSep', new Date(2024, 8, 1, 14, 0), 0.1),
+      photo('bSep', new Date(2024, 8, 1, 14, 30), 0.9),
+    ]
+    const weights = (timeSpread: number) => ({
+      smile: 0,
+      faceScore: 0,
+      orientation: 0,
+      blur: 0,
+      exposure: 0,
+      eyesOpen: 0,
+      composition: 0,
+      timeSpread,
+      groupBalance: 0.5,
+    })
+
+    beforeEach(() => {
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+    })
+
+    it('should let one busy day take over without time spread', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 6, weights(0))
+
+      expect(result.photos.every((p) => p.id.includes('Apr'))).toBe(true)
+      expect(result.report?.timeBuckets).toBeUndefined()
+    })
+
+    it('should spread picks across months', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 6, weights(1))
+
+      expect(result.report?.counts).toEqual({ A: 3, B: 3 })
+      expect(result.report?.timeBuckets).toEqual([
+        { key: '2024-04', cap: 2, achieved: 2 },
+        { key: '2024-06', cap: 2, achieved: 2 },
+        { key: '2024-09', cap: 2, achieved: 2 },
+      ])
+      expect(result.report?.feasible).toBe(true)
+    })
+
+    it('should loosen the cap with a lower strength', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 6, weights(0.5))
+
+      expect(result.report?.timeBuckets?.map((b) => b.cap)).toEqual([3, 3, 3])
+      expect(result.report?.timeBuckets?.[0]!.achieved).toBe(3)
+    })
+
+    it('should spread picks across events split by time gaps', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 6, weights(1), {
+        timeUnit: 'event',
+      })
+
+      expect(result.report?.timeBuckets).toEqual([
+        { key: '2024-04-10 10:00', cap: 2, achieved: 2 },
+        { key: '2024-06-05 09:00', cap: 2, achieved: 2 },
+        { key: '2024-09-01 14:00', cap: 2, achieved: 2 },
+      ])
+    })
+  })
+
+  describe('group mode event limits', () => {
+    const A = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+    const B = { id: 'B', descriptor: [0.9] } as unknown as FaceCluster
+    const photo = (id: string, timestamp: number, eventId: string, ds: number[]) =>
+      ({
+        id,
+        timestamp,
+        eventId,
+        faces: ds.map((d) => ({ descriptor: [d], box: { x: 0, width: 100 } })),
+      }) as unknown as Photo
+
+    // Group shots on sports day beat the solo shots from the excursion
+    const photos = [
+      ...[1, 2, 3].map((i) => photo(`sports${i}`, i, 'sports', [0.1, 0.9])),
+      photo('aTrip', 10, 'trip', [0.1]),
+      photo('bTrip', 11, 'trip', [0.9]),
+    ]
+
+    beforeEach(() => {
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+    })
+
+    it('should pick only from the best event without limits', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 3)
+
+      expect(result.photos.map((p) => p.id)).toEqual(['sports1', 'sports2', 'sports3'])
+      expect(result.report?.events).toBeUndefined()
+    })
+
+    it('should guarantee a minimum per event', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 3, undefined, {
+        eventLimits: { trip: { min: 2 } },
+      })
+
+      expect(result.photos.map((p) => p.id)).toEqual(['sports1', 'aTrip', 'bTrip'])
+      expect(result.report?.feasible).toBe(true)
+      expect(result.report?.events).toEqual([
+        { eventId: 'trip', requested: { min: 2 }, achieved: 2, satisfied: true },
+      ])
+    })
+
+    it('should report an event limit that cannot be met', async () => {
+      const result = await selectGroupBalancedPhotosWithReport('session1', [A, B], 3, undefined, {
+        eventLimits: { trip: { min: 3 } },
+      })
+
+      expect(result.report?.solver).toBe('greedy')
+      expect(result.report?.feasible).toBe(false)
+      expect(result.report?.events?.[0]!.satisfied).toBe(false)
+    })
+  })
+
+  describe('group mode quotas', () => {
+    const cluster = (id: string, d: number) =>
+      ({ id, descriptor: [d], config: { similarityThreshold: 0.05 } }) as unknown as FaceCluster
+    const solos = (prefix: string, d: number, n: number, start: number) =>
+      Array.from(
+        { length: n },
+        (_, i) =>
+          ({
+            id: `${prefix}${i + 1}`,
+            timestamp: start + i,
+            faces: [{ descriptor: [d], box: { x: 0, width: 100 } }],
+          }) as unknown as Photo,
+      )
+
+    const A = cluster('A', 0.1)
+    const B = cluster('B', 0.2)
+    const C = cluster('C', 0.3)
+
+    beforeEach(() => {
+      const photos = [
+        ...solos('a', 0.1, 4, 100),
+        ...solos('b', 0.2, 4, 200),
+        ...solos('c', 0.3, 1, 300),
+      ]
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+    })
+
+    it('should guarantee a minimum for a child with few photos', async () => {
+      // C has a single photo: balancing everyone within 1 would cap A and B at 2
+      const unbalanced = await selectGroupBalancedPhotosWithReport('session1', [A, B, C], 7)
+      expect(unbalanced.report?.feasible).toBe(false)
+
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        7,
+        undefined,
+        {
+          quotas: { C: { min: 1 } },
+        },
+      )
+
+      expect(result.report?.feasible).toBe(true)
+      expect(result.report?.counts).toEqual({ A: 3, B: 3, C: 1 })
+      expect(result.report?.quotas).toEqual([
+        { clusterId: 'C', requested: { min: 1 }, achieved: 1, satisfied: true },
+      ])
+    })
+
+    it('should hit an exact target and balance the others', async () => {
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        6,
+        undefined,
+        {
+          quotas: { A: { target: 1, max: 4 }, C: { min: 1 } },
+        },
+      )
+
+      // target overrides max
+      expect(result.report?.counts).toEqual({ A: 1, B: 4, C: 1 })
+      expect(result.report?.quotas.every((q) => q.satisfied)).toBe(true)
+    })
+
+    it('should keep max quotas when there are fewer photos than requested', async () => {
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        20,
+        undefined,
+        {
+          quotas: { A: { max: 2 }, B: { max: 2 } },
+        },
+      )
+
+      expect(result.photos).toHaveLength(5)
+      expect(result.report?.counts).toEqual({ A: 2, B: 2, C: 1 })
+      expect(result.report?.solver).toBe('optimal')
+      expect(result.report?.quotas.every((q) => q.satisfied)).toBe(true)
+    })
+
+    it('should use every photo when only the tolerance is out of reach', async () => {
+      // A and B have 4 photos, C only 1: no selection of all 9 is within tolerance 1
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        20,
+        undefined,
+        {
+          tolerance: 1,
+        },
+      )
+
+      expect(result.photos).toHaveLength(9)
+      expect(result.report?.counts).toEqual({ A: 4, B: 4, C: 1 })
+      expect(result.report?.feasible).toBe(false)
+    })
+
+    it('should report quotas that cannot be met', async () => {
+      const result = await selectGroupBalancedPhotosWithReport(
+        'session1',
+        [A, B, C],
+        6,
+        undefined,
+        {
+          tolerance: 4,
+          quotas: { C: { target: 3 } },
+        },
+      )
+
+      expect(result.photos).toHaveLength(6)
+      expect(result.report?.feasible).toBe(false)
+      expect(result.report?.solver).toBe('greedy')
+      expect(result.report?.quotas).toEqual([
+        { clusterId: 'C', requested: { target: 3 }, achieved: 1, satisfied: false },
+      ])
+    })
+  })
+
+  describe('selection reasons', () => {
+    const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+    const clusterB = { id: 'B', descriptor: [0.9] } as unknown as FaceCluster
+
+    const p1 = {
+      id: 'p1',
+      timestamp: 100,
+      blurScore: 0.8,
+      faces: [
+        {
+          descriptor: [0.12],
+          box: { x: 0, width: 100 },
+          smileScore: 0.9,
+          score: 0.95,
+          eyesOpenScore: 0.5,
+        },
+      ],
+    } as unknown as Photo
+    const p1Burst = { ...p1, id: 'p1-burst', timestamp: 101 }
+    const p2 = {
+      id: 'p2',
+      timestamp: 5000,
+      faces: [{ descriptor: [0.9], box: { x: 0, width: 100 }, smileScore: 0.2, score: 0.9 }],
+    } as unknown as Photo
+    const p3 = { ...p2, id: 'p3', timestamp: 9000 }
+
+    beforeEach(() => {
+      mockDB.getAllFromIndex.mockResolvedValue([p1, p1Burst, p2, p3])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue([p1, p2, p3])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.groupNearDuplicatePhotos.mockReturnValue([
+        { photos: [p1, p1Burst] },
+        { photos: [p2] },
+        { photos: [p3] },
+      ])
+    })
+
+    it('should explain group mode picks', async () => {
+      const result = await selectGroupBalancedPhotos('session1', [clusterA, clusterB], 2)
+
+      expect(result.map((p) => p.id)).toEqual(['p1', 'p2'])
+      const [first, second] = result.map((p) => p.selectionReason!)
+
+      expect(first!.subjects).toHaveLength(1)
+      expect(first!.subjects[0]!.clusterId).toBe('A')
+      expect(first!.subjects[0]!.distance).toBeCloseTo(0.02)
+      expect(first!.quality).toMatchObject({
+        smile: 0.9,
+        faceScore: 0.95,
+        eyesOpen: 0.5,
+        blur: 0.8,
+      })
+      expect(first!.burstSize).toBe(2)
+      expect(second!.burstSize).toBe(1)
+
+      // The first pick unbalances A and B, the second one restores the balance
+      expect(first!.balancePenalty).toBeGreaterThan(0)
+      expect(second!.balancePenalty).toBe(0)
+      expect(typeof first!.score).toBe('number')
+    })
+
+    it('should explain picks in other modes without balance details', async () => {
+      const result = await selectSmilePhotos('session1', [clusterA, clusterB], 2)
+
+      const reason = result.find((p) => p.id === 'p1')!.selectionReason!
+      expect(reason.quality.smile).toBe(0.9)
+      expect(reason.burstSize).toBe(2)
+      expect(reason.balancePenalty).toBeUndefined()
+    })
   })
 
   describe('selectGrowthPhotos', () => {
@@ -351,7 +886,6 @@ describe('selection-algorithm', () => {
       mockDB.getAllFromIndex.mockResolvedValue([p1, p2, p3, p4, p5])
       // @ts-expect-error -- Mocking return value
       burstDetection.deduplicateBurstPhotos.mockReturnValue([p1, p2, p3, p4, p5])
-      vi.mocked(faceapi.euclideanDistance).mockReturnValue(0) // Perfect match
 
       // Select 3 photos.
       // Range: 1000 to 5000. Duration 4000. Interval 1333.33
@@ -375,6 +909,36 @@ describe('selection-algorithm', () => {
       expect(ids).toEqual(['p2', 'p3', 'p4'])
     })
 
+    it('should recognise the child through the prototype of each period', async () => {
+      const MONTH = 30 * 24 * 60 * 60 * 1000
+      const april = {
+        id: 'april',
+        timestamp: 0,
+        faces: [{ descriptor: [0.1], box: { x: 0, width: 100 } }],
+      } as unknown as Photo
+      const march = {
+        id: 'march',
+        timestamp: 11 * MONTH,
+        faces: [{ descriptor: [0.8], box: { x: 0, width: 100 } }],
+      } as unknown as Photo
+      const clusterA = {
+        id: 'A',
+        descriptor: [0.1],
+        prototypes: [
+          { periodStart: 0, descriptor: [0.1], count: 1 },
+          { periodStart: 11 * MONTH, descriptor: [0.75], count: 1 },
+        ],
+      } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue([april, march])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue([april, march])
+
+      const result = await selectGrowthPhotos('session1', clusterA, 2)
+
+      expect(result.map((p) => p.id)).toEqual(['april', 'march'])
+    })
+
     it('should return empty if no matched photos', async () => {
       const p1 = { id: 'p1', timestamp: 1000, faces: [] } as unknown as Photo
       const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
@@ -391,4 +955,332 @@ describe('selection-algorithm', () => {
       expect(result).toHaveLength(0)
     })
   })
+
+  describe('selectSmilePhotos', () => {
+    const face = (descriptor: number, smileScore: number) => ({
+      descriptor: [descriptor],
+      box: { x: 0, width: 100 },
+      smileScore,
+    })
+
+    it('should return empty array if no photos', async () => {
+      mockDB.getAllFromIndex.mockResolvedValue([])
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue([])
+
+      const result = await selectSmilePhotos('session1', [], 5)
+      expect(result).toEqual([])
+    })
+
+    it('should pick the biggest smiles in chronological order', async () => {
+      const photos = [
+        { id: 'p1', timestamp: 100, faces: [face(0.1, 0.2)] },
+        { id: 'p2', timestamp: 200, faces: [face(0.1, 0.9)] },
+        { id: 'p3', timestamp: 300, faces: [face(0.1, 0.5)] },
+        { id: 'p4', timestamp: 400, faces: [face(0.1, 0.8)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectSmilePhotos('session1', [clusterA], 2)
+
+      expect(result.map((p) => p.id)).toEqual(['p2', 'p4'])
+      expect(result[0]!.matchedSubjects).toEqual(['A'])
+    })
+
+    it('should keep every subject covered even if another child smiles more', async () => {
+      // A has three big smiles, B only has modest ones.
+      const photos = [
+        { id: 'a1', timestamp: 100, faces: [face(0.1, 0.95)] },
+        { id: 'a2', timestamp: 200, faces: [face(0.1, 0.9)] },
+        { id: 'a3', timestamp: 300, faces: [face(0.1, 0.85)] },
+        { id: 'b1', timestamp: 400, faces: [face(0.5, 0.3)] },
+        { id: 'b2', timestamp: 500, faces: [face(0.5, 0.4)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+      const clusterB = { id: 'B', descriptor: [0.5] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectSmilePhotos('session1', [clusterA, clusterB], 4)
+
+      // A=2, B=2: best two of each subject
+      expect(result.map((p) => p.id)).toEqual(['a1', 'a2', 'b1', 'b2'])
+    })
+
+    it("should rank by the subject's own smile, not other faces in the photo", async () => {
+      // g1: A is not smiling but a non-target child is beaming.
+      const photos = [
+        { id: 'g1', timestamp: 100, faces: [face(0.1, 0.1), face(0.9, 1)] },
+        { id: 'g2', timestamp: 200, faces: [face(0.1, 0.6), face(0.9, 0)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectSmilePhotos('session1', [clusterA], 1)
+
+      expect(result.map((p) => p.id)).toEqual(['g2'])
+    })
+
+    it('should count group photos towards every subject in them', async () => {
+      const photos = [
+        { id: 'ab', timestamp: 100, faces: [face(0.1, 0.9), face(0.5, 0.9)] },
+        { id: 'a1', timestamp: 200, faces: [face(0.1, 0.8)] },
+        { id: 'b1', timestamp: 300, faces: [face(0.5, 0.2)] },
+        { id: 'c1', timestamp: 400, faces: [face(0.9, 0.1)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+      const clusterB = { id: 'B', descriptor: [0.5] } as unknown as FaceCluster
+      const clusterC = { id: 'C', descriptor: [0.9] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectSmilePhotos('session1', [clusterA, clusterB, clusterC], 2)
+
+      // 'ab' covers A and B, so the second pick must go to C.
+      expect(result.map((p) => p.id)).toEqual(['ab', 'c1'])
+    })
+
+    it('should not count a cut-off face as a photo of its subject', async () => {
+      // Only B's chin is in 'ab', so B still needs a photo of its own
+      const photos = [
+        {
+          id: 'ab',
+          timestamp: 100,
+          faces: [face(0.1, 0.9), { ...face(0.5, 0.9), completenessScore: 0.3 }],
+        },
+        { id: 'a1', timestamp: 200, faces: [face(0.1, 0.95)] },
+        { id: 'b1', timestamp: 300, faces: [face(0.5, 0.2)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+      const clusterB = { id: 'B', descriptor: [0.5] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectSmilePhotos('session1', [clusterA, clusterB], 2)
+
+      expect(result.map((p) => p.id)).toEqual(['a1', 'b1'])
+      expect(result[1]!.matchedSubjects).toEqual(['B'])
+    })
+  })
+
+  describe('selectConnectionPhotos', () => {
+    const face = (descriptor: number) => ({ descriptor: [descriptor], box: { x: 0, width: 100 } })
+    const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+    const clusterB = { id: 'B', descriptor: [0.5] } as unknown as FaceCluster
+    const clusterC = { id: 'C', descriptor: [0.9] } as unknown as FaceCluster
+
+    it('should return empty array without combinations', async () => {
+      const result = await selectConnectionPhotos('session1', [], 5)
+      expect(result).toEqual([])
+      expect(mockDB.getAllFromIndex).not.toHaveBeenCalled()
+    })
+
+    it('should only select photos where every member of a combination appears', async () => {
+      const photos = [
+        { id: 'ab', timestamp: 100, faces: [face(0.1), face(0.5)] },
+        { id: 'a', timestamp: 200, faces: [face(0.1)] },
+        { id: 'b', timestamp: 300, faces: [face(0.5)] },
+        { id: 'abc', timestamp: 400, faces: [face(0.1), face(0.5), face(0.9)] },
+      ] as unknown as Photo[]
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectConnectionPhotos('session1', [[clusterA, clusterB]], 10)
+
+      expect(result.map((p) => p.id)).toEqual(['ab', 'abc'])
+      expect(result[0]!.matchedSubjects).toEqual(['A', 'B'])
+    })
+
+    it('should balance picks across combinations', async () => {
+      // Many A+B photos, only two B+C photos
+      const photos = [
+        { id: 'ab1', timestamp: 100, faces: [face(0.1), face(0.5)] },
+        { id: 'ab2', timestamp: 200, faces: [face(0.1), face(0.5)] },
+        { id: 'ab3', timestamp: 300, faces: [face(0.1), face(0.5)] },
+        { id: 'ab4', timestamp: 400, faces: [face(0.1), face(0.5)] },
+        { id: 'bc1', timestamp: 500, faces: [face(0.5), face(0.9)] },
+        { id: 'bc2', timestamp: 600, faces: [face(0.5), face(0.9)] },
+      ] as unknown as Photo[]
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectConnectionPhotos(
+        'session1',
+        [
+          [clusterA, clusterB],
+          [clusterB, clusterC],
+        ],
+        4,
+      )
+
+      const ids = result.map((p) => p.id)
+      expect(ids.filter((id) => id.startsWith('ab'))).toHaveLength(2)
+      expect(ids.filter((id) => id.startsWith('bc'))).toHaveLength(2)
+    })
+
+    it('should spread picks of a combination over time', async () => {
+      const photos = [1000, 1100, 1200, 5000, 9000, 9100].map((timestamp, i) => ({
+        id: `p${i}`,
+        timestamp,
+        faces: [face(0.1), face(0.5)],
+      })) as unknown as Photo[]
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectConnectionPhotos('session1', [[clusterA, clusterB]], 3)
+
+      // Earliest, then farthest (latest), then the middle
+      expect(result.map((p) => p.timestamp)).toEqual([1000, 5000, 9100])
+    })
+  })
+
+  describe('selectBestShotPhotos', () => {
+    const face = (descriptor: number, x: number, y: number, size: number) => ({
+      descriptor: [descriptor],
+      box: { x, y, width: size, height: size },
+    })
+
+    it('should prefer large, centred subjects', async () => {
+      const photos = [
+        { id: 'tiny', timestamp: 100, width: 1000, height: 1000, faces: [face(0.1, 490, 490, 20)] },
+        { id: 'edge', timestamp: 200, width: 1000, height: 1000, faces: [face(0.1, 0, 0, 300)] },
+        {
+          id: 'best',
+          timestamp: 300,
+          width: 1000,
+          height: 1000,
+          faces: [face(0.1, 350, 350, 300)],
+        },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectBestShotPhotos('session1', [clusterA], 1)
+
+      expect(result.map((p) => p.id)).toEqual(['best'])
+    })
+
+    it('should score the matched subject, not other faces in the frame', async () => {
+      // In 'crowd' a non-target child is large and centred, A is tiny in the corner
+      const photos = [
+        {
+          id: 'crowd',
+          timestamp: 100,
+          width: 1000,
+          height: 1000,
+          faces: [face(0.1, 0, 0, 50), face(0.9, 350, 350, 300)],
+        },
+        {
+          id: 'solo',
+          timestamp: 200,
+          width: 1000,
+          height: 1000,
+          faces: [face(0.1, 400, 400, 200)],
+        },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectBestShotPhotos('session1', [clusterA], 1)
+
+      expect(result.map((p) => p.id)).toEqual(['solo'])
+    })
+
+    it('should keep every subject covered', async () => {
+      const photos = [
+        { id: 'a1', timestamp: 100, width: 1000, height: 1000, faces: [face(0.1, 350, 350, 300)] },
+        { id: 'a2', timestamp: 200, width: 1000, height: 1000, faces: [face(0.1, 350, 350, 250)] },
+        { id: 'b1', timestamp: 300, width: 1000, height: 1000, faces: [face(0.5, 0, 0, 50)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+      const clusterB = { id: 'B', descriptor: [0.5] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.deduplicateBurstPhotos.mockReturnValue(photos)
+
+      const result = await selectBestShotPhotos('session1', [clusterA, clusterB], 2)
+
+      expect(result.map((p) => p.id)).toEqual(['a1', 'b1'])
+    })
+  })
+
+  describe('explainSkippedPhotos', () => {
+    const face = (descriptor: number, completenessScore = 1) => ({
+      descriptor: [descriptor],
+      box: { x: 0, width: 100 },
+      completenessScore,
+    })
+
+    it('should tell why each photo was left out', async () => {
+      const photos = [
+        { id: 'picked', timestamp: 100, faces: [face(0.1)] },
+        { id: 'twin', timestamp: 101, faces: [face(0.1)] },
+        { id: 'empty', timestamp: 200, faces: [] },
+        { id: 'stranger', timestamp: 300, faces: [face(0.9)] },
+        { id: 'cut', timestamp: 400, faces: [face(0.1, 0.2)] },
+        { id: 'other', timestamp: 500, faces: [face(0.1)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.groupNearDuplicatePhotos.mockReturnValue([{ photos: [photos[0], photos[1]] }])
+
+      const skipped = await explainSkippedPhotos('session1', [clusterA], [photos[0]!])
+
+      expect(skipped.map((p) => [p.id, p.skipReason!.kind])).toEqual([
+        ['twin', 'similar-shot'],
+        ['empty', 'no-faces'],
+        ['stranger', 'no-subject'],
+        ['cut', 'hidden-face'],
+        ['other', 'outranked'],
+      ])
+      expect(skipped[0]!.skipReason!.similarTo).toBe('picked')
+      expect(skipped[4]!.skipReason!.subjects).toEqual(['A'])
+    })
+
+    it('should not call frames the user kept all of similar shots', async () => {
+      const photos = [
+        { id: 'picked', timestamp: 100, faces: [face(0.1)] },
+        { id: 'twin', timestamp: 101, faces: [face(0.1)] },
+      ] as unknown as Photo[]
+      const clusterA = { id: 'A', descriptor: [0.1] } as unknown as FaceCluster
+
+      mockDB.getAllFromIndex.mockResolvedValue(photos)
+      // @ts-expect-error -- Mocking return value
+      burstDetection.groupNearDuplicatePhotos.mockReturnValue([{ photos }])
+
+      const skipped = await explainSkippedPhotos('session1', [clusterA], [photos[0]!], {
+        overrides: [{ photoId: 'twin', sessionId: 'session1', keepAll: true }],
+      })
+
+      expect(skipped[0]!.skipReason!.kind).toBe('outranked')
+    })
+  })
 })
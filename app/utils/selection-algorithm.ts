@@ -1,47 +1,181 @@
-import type { Photo, FaceCluster } from './types'
+import type { Photo, FaceCluster, SelectionReason, SkipReason } from './types'
 import { getDB } from './db'
-import { CLUSTER_THRESHOLD } from './clustering'
-import { deduplicateBurstPhotos } from './burst-detection'
-import * as faceapi from 'face-api.js'
+import { CLUSTER_THRESHOLD, clusterDistance } from './clustering'
+import {
+  deduplicateBurstPhotos,
+  groupNearDuplicatePhotos,
+  type BurstOptions,
+} from './burst-detection'
+import {
+  compositionScore,
+  INCOMPLETE_FACE_PENALTY,
+  orientationScore,
+  showsSubject,
+  subjectSharpness,
+} from './face-metrics'
+import { exposureScore } from './image-analysis'
+import {
+  solveBalancedSelection,
+  type BalanceCandidate,
+  type BucketLimits,
+  type SubjectBounds,
+} from './balance-solver'
+import { detectEvents } from './event-detection'
+
+type PhotoFace = NonNullable<Photo['faces']>[number]
 
 interface ScoredPhoto {
   photo: Photo
   subjects: string[]
   matchedFaces: NonNullable<Photo['faces']>
+  // Closest matching face for each subject (cluster id -> face)
+  subjectFaces: Map<string, PhotoFace>
+  // Distance of that face to the cluster descriptor
+  subjectDistances: Map<string, number>
   matched: boolean
 }
 
 function matchPhotoToSubjects(
   photo: Photo,
   targetClusters: FaceCluster[],
-): { subjects: string[]; matchedFaces: NonNullable<Photo['faces']>; matched: boolean } {
+): Omit<ScoredPhoto, 'photo'> {
+  const subjectFaces = new Map<string, PhotoFace>()
   if (!photo.faces || photo.faces.length === 0) {
-    return { subjects: [], matchedFaces: [], matched: false }
+    return {
+      subjects: [],
+      matchedFaces: [],
+      subjectFaces,
+      subjectDistances: new Map(),
+      matched: false,
+    }
   }
 
-  const subjects = new Set<string>()
+  const subjectDistances = new Map<string, number>()
   const matchedFaces: NonNullable<Photo['faces']> = []
 
   for (const face of photo.faces) {
     let isMatch = false
     for (const cluster of targetClusters) {
       const threshold = cluster.config?.similarityThreshold ?? CLUSTER_THRESHOLD
-      if (faceapi.euclideanDistance(face.descriptor, cluster.descriptor) < threshold) {
-        subjects.add(cluster.id)
+      const distance = clusterDistance(cluster, face.descriptor, photo.timestamp)
+      if (distance < threshold) {
         isMatch = true
+        // A cut-off or hidden face still weighs on quality, but doesn't count as the subject
+        if (!showsSubject(face)) continue
+        if (distance < (subjectDistances.get(cluster.id) ?? Infinity)) {
+          subjectDistances.set(cluster.id, distance)
+          subjectFaces.set(cluster.id, face)
+        }
       }
     }
     if (isMatch) matchedFaces.push(face)
   }
 
-  return { subjects: Array.from(subjects), matchedFaces, matched: subjects.size > 0 }
+  return {
+    subjects: Array.from(subjectFaces.keys()),
+    matchedFaces,
+    subjectFaces,
+    subjectDistances,
+    matched: subjectFaces.size > 0,
+  }
 }
 
 function buildScoredPhotos(allPhotos: Photo[], targetClusters: FaceCluster[]): ScoredPhoto[] {
-  return allPhotos.map((photo) => {
-    const { subjects, matchedFaces, matched } = matchPhotoToSubjects(photo, targetClusters)
-    return { photo: { ...photo }, subjects, matchedFaces, matched }
-  })
+  return allPhotos.map((photo) => ({
+    photo: { ...photo },
+    ...matchPhotoToSubjects(photo, targetClusters),
+  }))
+}
+
+/**
+ * Burst group size for every photo id, used to tell which selected photos
+ * won over similar shots.
+ */
+function burstGroupSizes(
+  photos: ReadonlyArray<Photo>,
+  burst: BurstOptions = {},
+): Map<string, number> {
+  const keepAll = new Set((burst.overrides ?? []).filter((o) => o.keepAll).map((o) => o.photoId))
+  const sizes = new Map<string, number>()
+  for (const group of groupNearDuplicatePhotos(photos, burst)) {
+    // Frames the user kept all of did not compete with each other
+    const size = group.photos.some((p) => keepAll.has(p.id)) ? 1 : group.photos.length
+    group.photos.forEach((p) => sizes.set(p.id, size))
+  }
+  return sizes
+}
+
+function explainSelection(
+  scored: ScoredPhoto,
+  burstSizes: Map<string, number>,
+  extra: Pick<SelectionReason, 'score' | 'balancePenalty'> = {},
+): SelectionReason {
+  const faces = scored.matchedFaces
+  const average = (metric: (face: PhotoFace) => number) =>
+    faces.length > 0 ? faces.reduce((sum, f) => sum + metric(f), 0) / faces.length : 0
+
+  return {
+    subjects: scored.subjects.map((clusterId) => ({
+      clusterId,
+      distance: scored.subjectDistances.get(clusterId)!,
+    })),
+    quality: {
+      smile: average((f) => f.smileScore ?? 0),
+      orientation: average(orientationScore),
+      faceScore: average((f) => f.score ?? 0),
+      eyesOpen: average((f) => f.eyesOpenScore ?? 1),
+      blur: subjectSharpness(scored.photo.blurScore, faces),
+      exposure: exposureScore(scored.photo.exposure, faces),
+    },
+    ...extra,
+    burstSize: burstSizes.get(scored.photo.id) ?? 1,
+  }
+}
+
+/**
+ * Selected photo each near-duplicate of the selection stood in for, by photo id.
+ * Frames the user kept all of did not compete with each other.
+ */
+function similarShotWinners(
+  photos: ReadonlyArray<Photo>,
+  selectedIds: ReadonlySet<string>,
+  burst: BurstOptions = {},
+): Map<string, string> {
+  const keepAll = new Set((burst.overrides ?? []).filter((o) => o.keepAll).map((o) => o.photoId))
+  const winners = new Map<string, string>()
+  for (const group of groupNearDuplicatePhotos(photos, burst)) {
+    if (group.photos.some((p) => keepAll.has(p.id))) continue
+    const winner = group.photos.find((p) => selectedIds.has(p.id))
+    if (!winner) continue
+    group.photos.forEach((p) => p.id !== winner.id && winners.set(p.id, winner.id))
+  }
+  return winners
+}
+
+function explainSkip(scored: ScoredPhoto, winners: Map<string, string>): SkipReason {
+  const subjects = scored.subjects
+  if (!scored.photo.faces || scored.photo.faces.length === 0) {
+    return { kind: 'no-faces', subjects }
+  }
+  if (scored.matchedFaces.length === 0) return { kind: 'no-subject', subjects }
+  // Matched faces that don't count as a subject are cut off or hidden
+  if (subjects.length === 0) return { kind: 'hidden-face', subjects }
+  const similarTo = winners.get(scored.photo.id)
+  if (similarTo) return { kind: 'similar-shot', subjects, similarTo }
+  return { kind: 'outranked', subjects }
+}
+
+// Selector output: the photo with its matched subjects and explanation
+function toSelectedPhoto(
+  scored: ScoredPhoto,
+  burstSizes: Map<string, number>,
+  extra?: Pick<SelectionReason, 'score' | 'balancePenalty'>,
+): Photo {
+  return {
+    ...scored.photo,
+    matchedSubjects: scored.subjects,
+    selectionReason: explainSelection(scored, burstSizes, extra),
+  }
 }
 
 export interface SelectionWeights {
@@ -49,102 +183,183 @@ export interface SelectionWeights {
   faceScore: number // 0-1 (Quality/Size)
   orientation: number // 0-1 (Looking at camera)
   blur: number // 0-1 (Sharpness)
+  exposure: number // 0-1 (Well lit, nothing blown out or too dark)
+  eyesOpen: number // 0-1 (Penalty for closed eyes)
+  composition: number // 0-1 (Subject large and centred)
+  timeSpread: number // 0 (Off) to 1 (Spread picks over time as evenly as possible)
   groupBalance: number // 0 (Solo) to 1 (Group)
 }
 
-export async function selectGroupBalancedPhotos(
-  sessionId: string,
-  targetClusters: FaceCluster[],
-  count: number,
-  weights: SelectionWeights = {
-    smile: 0,
-    faceScore: 0,
-    orientation: 0,
-    blur: 0,
-    groupBalance: 0.5, // Default to neutral/fairness
-  },
-): Promise<Photo[]> {
-  const db = await getDB()
-  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+/**
+ * Requested appearances for one child. `target` asks for an exact count and
+ * overrides min/max. Children with a quota are not part of the tolerance check.
+ */
+export interface SubjectQuota {
+  min?: number
+  max?: number
+  target?: number
+}
 
-  // Deduplicate burst photos before scoring
-  const deduplicated = deduplicateBurstPhotos(allPhotos, targetClusters)
+export interface GroupBalanceOptions {
+  // Max allowed difference between the most and least shown child
+  tolerance?: number
+  // Cluster id -> quota
+  quotas?: Record<string, SubjectQuota>
+  // Time buckets used by weights.timeSpread (default 'month')
+  timeUnit?: TimeUnit
+  // Event id -> picks allowed from that event, so every event is represented
+  eventLimits?: Record<string, EventLimits>
+  // Search budget for the solver; past it the best selection found so far is used
+  maxNodes?: number
+  // How burst shots are grouped before selection
+  burst?: BurstOptions
+}
 
-  const scoredPhotos = buildScoredPhotos(deduplicated, targetClusters)
+export type EventLimits = BucketLimits
 
-  if (scoredPhotos.length === 0) return []
+/**
+ * How photos are bucketed for the time spread constraint:
+ *   - 'month': calendar month
+ *   - 'event': the photo's detected event (see event-detection)
+ */
+export type TimeUnit = 'month' | 'event'
 
-  const matched = scoredPhotos.filter((p) => p.matched)
+export interface TimeBucketResult {
+  // 'YYYY-MM' for months; event id for events, or start time 'YYYY-MM-DD HH:mm'
+  // for photos that have not been segmented yet
+  key: string
+  cap: number
+  achieved: number
+}
+
+export interface EventLimitResult {
+  eventId: string
+  requested: EventLimits
+  achieved: number
+  satisfied: boolean
+}
+
+export interface QuotaResult {
+  clusterId: string
+  requested: SubjectQuota
+  achieved: number
+  satisfied: boolean
+}
+
+export interface BalanceReport {
+  // 'optimal': proven best, 'near-optimal': solver ran out of budget,
+  // 'greedy': no selection within tolerance was found, greedy result used
+  solver: 'optimal' | 'near-optimal' | 'greedy'
+  feasible: boolean // Every child with photos is within tolerance
+  tolerance: number
+  counts: Record<string, number> // Cluster id -> appearances in the selection
+  missingSubjects: string[] // Cluster ids with no matching photo at all
+  quotas: QuotaResult[] // Achieved vs requested, for children with a quota
+  timeBuckets?: TimeBucketResult[] // Picks per time bucket when time spread is on
+  events?: EventLimitResult[] // Achieved vs requested, for events with limits
+}
+
+export interface SelectionResult {
+  photos: Photo[]
+  report?: BalanceReport
+}
+
+export const DEFAULT_BALANCE_TOLERANCE = 1
+
+function groupQualityScore(img: ScoredPhoto, weights: SelectionWeights): number {
+  let qScore = 0
+  if (img.matchedFaces.length > 0) {
+    // Average metrics across matched faces
+    const avgSmile =
+      img.matchedFaces.reduce((sum, f) => sum + (f.smileScore ?? 0), 0) / img.matchedFaces.length
+    // Frontality combines pan, tilt (looking down/up) and roll: 1 is front
+    const orientationMetric =
+      img.matchedFaces.reduce((sum, f) => sum + orientationScore(f), 0) / img.matchedFaces.length
+
+    const avgFaceScore =
+      img.matchedFaces.reduce((sum, f) => sum + (f.score ?? 0), 0) / img.matchedFaces.length
+
+    // Photos analysed before eye detection have no score: treat as open
+    const avgEyesOpen =
+      img.matchedFaces.reduce((sum, f) => sum + (f.eyesOpenScore ?? 1), 0) / img.matchedFaces.length
+
+    qScore += avgSmile * weights.smile * 2 // Boost smile impact
+    qScore += avgFaceScore * weights.faceScore
+    qScore += orientationMetric * weights.orientation
+    qScore -= (1 - avgEyesOpen) * weights.eyesOpen * 2 // Closed eyes are a strong negative
+
+    // Subjects cut off by the frame or hidden behind someone barely count as shown.
+    // Photos analysed before this have no score: treat as fully visible
+    const avgCompleteness =
+      img.matchedFaces.reduce((sum, f) => sum + (f.completenessScore ?? 1), 0) /
+      img.matchedFaces.length
+    qScore -= (1 - avgCompleteness) * INCOMPLETE_FACE_PENALTY
+
+    const avgComposition =
+      img.matchedFaces.reduce(
+        (sum, f) => sum + compositionScore(f.box, img.photo.width, img.photo.height),
+        0,
+      ) / img.matchedFaces.length
+    qScore += avgComposition * weights.composition
+  }
+
+  // Sharpness of the matched faces, or of the whole photo for older analyses
+  const sharpness = subjectSharpness(img.photo.blurScore, img.matchedFaces)
+  if (sharpness !== undefined) {
+    qScore += sharpness * weights.blur * 2 // Boost blur impact
+  }
+
+  // Lighting, judged on the matched faces when they were measured
+  const exposure = exposureScore(img.photo.exposure, img.matchedFaces)
+  if (exposure !== undefined) qScore += exposure * weights.exposure
 
-  // If we have fewer matched photos than requested, return all of them
-  if (matched.length <= count) {
-    return matched.map((p) => p.photo)
+  // Group/Solo Bias Score
+  // weights.groupBalance: 0 (Solo) ... 0.5 (Neutral) ... 1 (Group)
+  // Map to -1 ... 0 ... 1
+  const bias = (weights.groupBalance - 0.5) * 2
+  if (bias > 0) {
+    // Prefer Group: Bonus for > 1 subject
+    if (img.subjects.length > 1) qScore += bias * 2
+  } else if (bias < 0) {
+    // Prefer Solo: Bonus for == 1 subject (by subtracting bias which is negative)
+    // Or simpler: Penalty for > 1
+    if (img.subjects.length === 1) qScore -= bias * 2 // bias is neg, so this adds score
   }
 
-  // Greedy selection for Group Balance:
-  // 1. Prioritize photos with the most target subjects (highest initial score)
-  // 2. Maintain a count of how many times each subject has been selected
-  // 3. Iteratively select photos that help balance the subject counts
-  // 4. Incorporate Quality Scores (Smile, Blur, etc.)
+  return qScore
+}
 
-  const selected: (typeof scoredPhotos)[0][] = []
+/**
+ * Greedy selection for Group Balance:
+ * 1. Prioritize photos with the most target subjects (highest initial score)
+ * 2. Maintain a count of how many times each subject has been selected
+ * 3. Iteratively select photos that help balance the subject counts
+ * 4. Incorporate Quality Scores (Smile, Blur, etc.)
+ *
+ * Fast, but a locally balanced pick can leave the final counts unbalanced.
+ * Used as the solver's starting point and as the fallback when it fails.
+ * Also returns the std-dev penalty each photo had when it was picked.
+ */
+function greedyBalancedSelection(
+  matched: ScoredPhoto[],
+  targetClusters: FaceCluster[],
+  count: number,
+  photoQualityScores: Map<string, number>,
+): { selected: ScoredPhoto[]; penalties: Map<string, number> } {
+  const selected: ScoredPhoto[] = []
+  const penalties = new Map<string, number>()
   const subjectCounts = new Map<string, number>()
   targetClusters.forEach((c) => subjectCounts.set(c.id, 0))
 
   // Clone matched array to pick from
   const pool = [...matched]
 
-  // Pre-calculate Quality Scores for efficiency
-  // This score is constant for a photo regardless of selection state
-  const photoQualityScores = new Map<string, number>()
-  pool.forEach((img) => {
-    let qScore = 0
-    if (img.matchedFaces.length > 0) {
-      // Average metrics across matched faces
-      const avgSmile =
-        img.matchedFaces.reduce((sum, f) => sum + (f.smileScore ?? 0), 0) / img.matchedFaces.length
-      const avgPan =
-        img.matchedFaces.reduce((sum, f) => sum + Math.abs(f.panScore ?? 0), 0) /
-        img.matchedFaces.length
-      // panScore of 0 is Front. We want 0. So score should be higher if pan is lower.
-      // Let's use (1 - abs(pan)) as "Frontality" score.
-
-      const avgFaceScore =
-        img.matchedFaces.reduce((sum, f) => sum + (f.score ?? 0), 0) / img.matchedFaces.length
-
-      const orientationMetric = 1 - avgPan // 1 is front, 0 is side (pan=1)
-
-      qScore += avgSmile * weights.smile * 2 // Boost smile impact
-      qScore += avgFaceScore * weights.faceScore
-      qScore += orientationMetric * weights.orientation
-    }
-
-    // Blur is photo-level (usually)
-    if (img.photo.blurScore !== undefined) {
-      qScore += img.photo.blurScore * weights.blur * 2 // Boost blur impact
-    }
-
-    // Group/Solo Bias Score
-    // weights.groupBalance: 0 (Solo) ... 0.5 (Neutral) ... 1 (Group)
-    // Map to -1 ... 0 ... 1
-    const bias = (weights.groupBalance - 0.5) * 2
-    if (bias > 0) {
-      // Prefer Group: Bonus for > 1 subject
-      if (img.subjects.length > 1) qScore += bias * 2
-    } else if (bias < 0) {
-      // Prefer Solo: Bonus for == 1 subject (by subtracting bias which is negative)
-      // Or simpler: Penalty for > 1
-      if (img.subjects.length === 1) qScore -= bias * 2 // bias is neg, so this adds score
-    }
-
-    photoQualityScores.set(img.photo.id, qScore)
-  })
-
   for (let i = 0; i < count; i++) {
     if (pool.length === 0) break
 
     let bestCandidateIndex = -1
     let maxScore = -Infinity
+    let bestPenalty = 0
     const K = 25 // Weight for standard deviation penalty (high value for strict balance)
     const numSubjects = targetClusters.length
 
@@ -172,12 +387,14 @@ export async function selectGroupBalancedPhotos(
       if (score > maxScore) {
         maxScore = score
         bestCandidateIndex = j
+        bestPenalty = K * stdDev
       }
     }
 
     if (bestCandidateIndex !== -1) {
       const best = pool[bestCandidateIndex]!
       selected.push(best)
+      penalties.set(best.photo.id, bestPenalty)
 
       // Update subject counts
       best.subjects.forEach((subId) => {
@@ -189,22 +406,351 @@ export async function selectGroupBalancedPhotos(
     }
   }
 
+  return { selected, penalties }
+}
+
+function formatLocalDate(timestamp: number, withTime: boolean): string {
+  const d = new Date(timestamp)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+  return withTime ? `${date} ${pad(d.getHours())}:${pad(d.getMinutes())}` : date
+}
+
+// Photo id -> time bucket key
+function timeBucketKeys(photos: ScoredPhoto[], unit: TimeUnit): Map<string, string> {
+  const keys = new Map<string, string>()
+  const sorted = [...photos].sort((a, b) => a.photo.timestamp - b.photo.timestamp)
+
+  if (unit === 'month') {
+    sorted.forEach((p) =>
+      keys.set(p.photo.id, formatLocalDate(p.photo.timestamp, false).slice(0, 7)),
+    )
+    return keys
+  }
+
+  // Photos from before segmentation are split on the fly
+  const unsegmented = sorted.filter((p) => !p.photo.eventId).map((p) => p.photo)
+  detectEvents(unsegmented).forEach((segment) => {
+    const key = formatLocalDate(segment.startTime, true)
+    segment.photos.forEach((photo) => keys.set(photo.id, key))
+  })
+  sorted.forEach((p) => {
+    if (p.photo.eventId) keys.set(p.photo.id, p.photo.eventId)
+  })
+  return keys
+}
+
+/**
+ * Per-bucket caps that spread `count` picks over time buckets.
+ *
+ * The even cap is the smallest c with sum(min(c, photos in bucket)) >= count,
+ * so small buckets hand their share to the others. Lower strength loosens
+ * the cap, up to twice the even cap.
+ */
+function timeBucketCaps(
+  keys: Map<string, string>,
+  count: number,
+  strength: number,
+): Record<string, number> {
+  const available = new Map<string, number>()
+  keys.forEach((key) => available.set(key, (available.get(key) ?? 0) + 1))
+
+  const sizes = Array.from(available.values())
+  const total = sizes.reduce((a, b) => a + b, 0)
+  const needed = Math.min(count, total)
+  let evenCap = Math.ceil(needed / Math.max(sizes.length, 1))
+  while (sizes.reduce((sum, n) => sum + Math.min(evenCap, n), 0) < needed) evenCap++
+
+  const cap = evenCap + Math.round((1 - strength) * evenCap)
+  return Object.fromEntries(Array.from(available.keys()).map((key) => [key, cap]))
+}
+
+// Solver bounds for a quota, or undefined if the quota sets nothing
+function quotaBounds(quota: SubjectQuota | undefined): SubjectBounds | undefined {
+  if (!quota) return undefined
+  const min = quota.target ?? quota.min
+  const max = quota.target ?? quota.max
+  if (min === undefined && max === undefined) return undefined
+  return { min, max }
+}
+
+/**
+ * How many photos over their max the subjects and events would be if every candidate
+ * were picked: the largest excess of any one limit and the sum over all of them.
+ */
+function maxLimitExcess(
+  candidates: ReadonlyArray<BalanceCandidate>,
+  bounds: Record<string, SubjectBounds>,
+  eventLimits: Record<string, EventLimits>,
+): { largest: number; total: number } {
+  const counts = new Map<string, number>()
+  const add = (key: string) => counts.set(key, (counts.get(key) ?? 0) + 1)
+  candidates.forEach((c) => {
+    c.subjects.forEach(add)
+    if (c.buckets?.event) add(`event:${c.buckets.event}`)
+  })
+
+  const excesses = [
+    ...Object.entries(bounds).map(([id, b]) => (counts.get(id) ?? 0) - (b.max ?? Infinity)),
+    ...Object.entries(eventLimits).map(
+      ([id, l]) => (counts.get(`event:${id}`) ?? 0) - (l.max ?? Infinity),
+    ),
+  ].filter((e) => e > 0)
+  return {
+    largest: Math.max(0, ...excesses),
+    total: excesses.reduce((sum, e) => sum + e, 0),
+  }
+}
+
+function buildBalanceReport(
+  selected: ScoredPhoto[],
+  targetClusters: FaceCluster[],
+  missingSubjects: string[],
+  quotas: Record<string, SubjectQuota>,
+  tolerance: number,
+  solver: BalanceReport['solver'],
+  timeBuckets?: { keys: Map<string, string>; caps: Record<string, number> },
+  eventLimits: Record<string, EventLimits> = {},
+): BalanceReport {
+  const counts: Record<string, number> = {}
+  targetClusters.forEach((c) => (counts[c.id] = 0))
+  selected.forEach((p) => p.subjects.forEach((id) => (counts[id] = (counts[id] ?? 0) + 1)))
+
+  const quotaResults: QuotaResult[] = targetClusters.flatMap((c) => {
+    const bounds = quotaBounds(quotas[c.id])
+    if (!bounds) return []
+    const achieved = counts[c.id]!
+    const satisfied = achieved >= (bounds.min ?? 0) && achieved <= (bounds.max ?? Infinity)
+    return [{ clusterId: c.id, requested: quotas[c.id]!, achieved, satisfied }]
+  })
+
+  const balanced = targetClusters
+    .filter((c) => !missingSubjects.includes(c.id) && !quotaBounds(quotas[c.id]))
+    .map((c) => counts[c.id]!)
+  const spread = balanced.length > 0 ? Math.max(...balanced) - Math.min(...balanced) : 0
+
+  let bucketResults: TimeBucketResult[] | undefined
+  if (timeBuckets) {
+    const achieved = new Map<string, number>()
+    selected.forEach((p) => {
+      const key = timeBuckets.keys.get(p.photo.id)!
+      achieved.set(key, (achieved.get(key) ?? 0) + 1)
+    })
+    bucketResults = Object.entries(timeBuckets.caps)
+      .map(([key, cap]) => ({ key, cap, achieved: achieved.get(key) ?? 0 }))
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  const eventResults: EventLimitResult[] = Object.entries(eventLimits).map(
+    ([eventId, requested]) => {
+      const achieved = selected.filter((p) => p.photo.eventId === eventId).length
+      const satisfied = achieved >= (requested.min ?? 0) && achieved <= (requested.max ?? Infinity)
+      return { eventId, requested, achieved, satisfied }
+    },
+  )
+
+  return {
+    solver,
+    feasible:
+      spread <= tolerance &&
+      quotaResults.every((q) => q.satisfied) &&
+      (bucketResults ?? []).every((b) => b.achieved <= b.cap) &&
+      eventResults.every((e) => e.satisfied),
+    tolerance,
+    counts,
+    missingSubjects,
+    quotas: quotaResults,
+    ...(bucketResults && { timeBuckets: bucketResults }),
+    ...(eventResults.length > 0 && { events: eventResults }),
+  }
+}
+
+export async function selectGroupBalancedPhotos(
+  sessionId: string,
+  targetClusters: FaceCluster[],
+  count: number,
+  weights?: SelectionWeights,
+  options?: GroupBalanceOptions,
+): Promise<Photo[]> {
+  const { photos } = await selectGroupBalancedPhotosWithReport(
+    sessionId,
+    targetClusters,
+    count,
+    weights,
+    options,
+  )
+  return photos
+}
+
+/**
+ * Group mode selection. Picks photos so every child's appearance count stays
+ * within `tolerance` of the others, preferring more faces and higher quality.
+ * Children with a quota get their own min/max (or exact target) instead.
+ * With weights.timeSpread > 0, picks are also capped per month or event so
+ * one busy day can't take over the album, and `eventLimits` sets a min/max
+ * per event.
+ *
+ * The greedy std-dev heuristic gives the starting selection; the branch and
+ * bound solver then looks for the best selection within tolerance. If none
+ * exists (e.g. one child has too few photos), the greedy result is returned
+ * and the report says so.
+ */
+export async function selectGroupBalancedPhotosWithReport(
+  sessionId: string,
+  targetClusters: FaceCluster[],
+  count: number,
+  weights: SelectionWeights = {
+    smile: 0,
+    faceScore: 0,
+    orientation: 0,
+    blur: 0,
+    exposure: 0,
+    eyesOpen: 0,
+    composition: 0,
+    timeSpread: 0,
+    groupBalance: 0.5, // Default to neutral/fairness
+  },
+  options: GroupBalanceOptions = {},
+): Promise<SelectionResult> {
+  const tolerance = options.tolerance ?? DEFAULT_BALANCE_TOLERANCE
+  const quotas = options.quotas ?? {}
+  const eventLimits = options.eventLimits ?? {}
+
+  const db = await getDB()
+  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+
+  // Deduplicate burst photos before scoring
+  // The fine-tune sliders also decide which frame of a burst is kept
+  const deduplicated = deduplicateBurstPhotos(allPhotos, targetClusters, options.burst, weights)
+  const burstSizes = burstGroupSizes(allPhotos, options.burst)
+
+  const scoredPhotos = buildScoredPhotos(deduplicated, targetClusters)
+
+  if (scoredPhotos.length === 0) return { photos: [] }
+
+  const matched = scoredPhotos.filter((p) => p.matched)
+
+  // Children without any photo can't be balanced; leave them out of the constraint
+  const present = new Set(matched.flatMap((p) => p.subjects))
+  const missingSubjects = targetClusters.filter((c) => !present.has(c.id)).map((c) => c.id)
+
+  // Pre-calculate Quality Scores for efficiency
+  // This score is constant for a photo regardless of selection state
+  const photoQualityScores = new Map<string, number>()
+  matched.forEach((img) => photoQualityScores.set(img.photo.id, groupQualityScore(img, weights)))
+
+  const greedy = greedyBalancedSelection(matched, targetClusters, count, photoQualityScores)
+
+  const bounds: Record<string, SubjectBounds> = {}
+  targetClusters.forEach((c) => {
+    const b = quotaBounds(quotas[c.id])
+    if (b) bounds[c.id] = b
+  })
+
+  const timeBuckets =
+    weights.timeSpread > 0
+      ? (() => {
+          const keys = timeBucketKeys(matched, options.timeUnit ?? 'month')
+          return { keys, caps: timeBucketCaps(keys, count, weights.timeSpread) }
+        })()
+      : undefined
+
+  const bucketLimits: Record<string, Record<string, BucketLimits>> = {}
+  if (timeBuckets) {
+    bucketLimits.time = Object.fromEntries(
+      Object.entries(timeBuckets.caps).map(([key, cap]) => [key, { max: cap }]),
+    )
+  }
+  if (Object.keys(eventLimits).length > 0) bucketLimits.event = eventLimits
+
+  const candidates = matched.map((p): BalanceCandidate => {
+    const buckets: Record<string, string> = {}
+    const timeKey = timeBuckets?.keys.get(p.photo.id)
+    if (timeKey) buckets.time = timeKey
+    if (p.photo.eventId) buckets.event = p.photo.eventId
+    return {
+      id: p.photo.id,
+      subjects: p.subjects,
+      value: p.subjects.length + (photoQualityScores.get(p.photo.id) ?? 0),
+      buckets,
+    }
+  })
+  // Quota children stay in even without photos, so an unmet minimum is reported
+  const subjectIds = targetClusters
+    .filter((c) => present.has(c.id) || bounds[c.id])
+    .map((c) => c.id)
+  const solve = (target: number, maxSpread = tolerance) =>
+    solveBalancedSelection(candidates, subjectIds, target, {
+      tolerance: maxSpread,
+      bounds,
+      bucketLimits,
+      maxNodes: options.maxNodes,
+      initialIds: greedy.selected.map((p) => p.photo.id),
+    })
+
+  let solution = solve(count)
+  // With few candidates every photo is used, even out of tolerance, unless a max quota
+  // or event limit rules that out: then pick fewer photos instead of ignoring the limit
+  const excess = matched.length <= count ? maxLimitExcess(candidates, bounds, eventLimits) : null
+  if (!solution.feasible && excess && excess.largest > 0) {
+    // Dropping photos never breaks a max, so the limits hold within `total` fewer photos
+    let target = matched.length - excess.largest
+    let withinLimits = solve(target, Infinity)
+    while (!withinLimits.feasible && target > matched.length - excess.total && target > 1) {
+      withinLimits = solve(--target, Infinity)
+    }
+    // Balanced within tolerance at that size if possible, out of tolerance otherwise
+    const balanced = withinLimits.feasible ? solve(target) : withinLimits
+    solution = balanced.feasible ? balanced : withinLimits
+  }
+
+  let picked = greedy
+  let solver: BalanceReport['solver'] = 'greedy'
+  if (solution.feasible) {
+    const byId = new Map(matched.map((p) => [p.photo.id, p]))
+    const chosen = solution.selectedIds.map((id) => byId.get(id)!)
+    // The solver has no pick order: replay greedily over its choice to estimate the
+    // per-photo penalties after the fact
+    picked = greedyBalancedSelection(chosen, targetClusters, chosen.length, photoQualityScores)
+    solver = solution.optimal ? 'optimal' : 'near-optimal'
+  }
+  const selected = [...picked.selected]
+
   // Sort selected photos by time for the album
   selected.sort((a, b) => a.photo.timestamp - b.photo.timestamp)
 
-  return selected.map((p) => ({ ...p.photo, matchedSubjects: p.subjects }))
+  return {
+    photos: selected.map((p) =>
+      toSelectedPhoto(p, burstSizes, {
+        score: photoQualityScores.get(p.photo.id),
+        balancePenalty: picked.penalties.get(p.photo.id),
+      }),
+    ),
+    report: buildBalanceReport(
+      selected,
+      targetClusters,
+      missingSubjects,
+      quotas,
+      tolerance,
+      solver,
+      timeBuckets,
+      eventLimits,
+    ),
+  }
 }
 
 export async function selectGrowthPhotos(
   sessionId: string,
   targetCluster: FaceCluster,
   count: number,
+  burst: BurstOptions = {},
 ): Promise<Photo[]> {
   const db = await getDB()
   const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
 
   // Deduplicate burst photos before scoring
-  const deduplicated = deduplicateBurstPhotos(allPhotos, [targetCluster])
+  const deduplicated = deduplicateBurstPhotos(allPhotos, [targetCluster], burst)
+  const burstSizes = burstGroupSizes(allPhotos, burst)
 
   const scoredPhotos = buildScoredPhotos(deduplicated, [targetCluster])
 
@@ -245,7 +791,7 @@ export async function selectGrowthPhotos(
             : prev,
         )
 
-        selected.push({ ...best.photo, matchedSubjects: best.subjects })
+        selected.push(toSelectedPhoto(best, burstSizes))
       }
     }
   }
@@ -254,3 +800,270 @@ export async function selectGrowthPhotos(
   // return [...selected, ...unmatchedPhotos]
   return selected
 }
+
+/**
+ * Shared loop for per-subject ranking modes (smile, best shot).
+ *
+ * Each iteration serves the least-covered subject that still has candidates,
+ * picking the photo where THAT subject scores highest by `subjectScore`
+ * (ties broken by `photoScore`). Counts are updated for every subject in the
+ * picked photo, so group shots still count towards coverage.
+ */
+function selectWithSubjectCoverage(
+  pool: ScoredPhoto[],
+  targetClusters: FaceCluster[],
+  count: number,
+  subjectScore: (scored: ScoredPhoto, face: PhotoFace) => number,
+  photoScore: (scored: ScoredPhoto) => number,
+): ScoredPhoto[] {
+  const remaining = [...pool]
+  const subjectCounts = new Map<string, number>()
+  targetClusters.forEach((c) => subjectCounts.set(c.id, 0))
+
+  const selected: ScoredPhoto[] = []
+
+  while (selected.length < count && remaining.length > 0) {
+    // Least-covered subjects first; subjects without remaining photos are skipped
+    const subjectOrder = targetClusters
+      .map((c) => c.id)
+      .filter((id) => remaining.some((p) => p.subjectFaces.has(id)))
+      .sort((a, b) => (subjectCounts.get(a) ?? 0) - (subjectCounts.get(b) ?? 0))
+
+    const subjectId = subjectOrder[0]
+    if (subjectId === undefined) break
+
+    let bestIndex = -1
+    let bestSubject = -Infinity
+    let bestOverall = -Infinity
+
+    for (let j = 0; j < remaining.length; j++) {
+      const face = remaining[j]!.subjectFaces.get(subjectId)
+      if (!face) continue
+
+      const subject = subjectScore(remaining[j]!, face)
+      const overall = photoScore(remaining[j]!)
+      if (subject > bestSubject || (subject === bestSubject && overall > bestOverall)) {
+        bestSubject = subject
+        bestOverall = overall
+        bestIndex = j
+      }
+    }
+
+    const best = remaining.splice(bestIndex, 1)[0]!
+    selected.push(best)
+    best.subjects.forEach((subId) => {
+      subjectCounts.set(subId, (subjectCounts.get(subId) || 0) + 1)
+    })
+  }
+
+  // Sort selected photos by time for the album
+  selected.sort((a, b) => a.photo.timestamp - b.photo.timestamp)
+
+  return selected
+}
+
+/**
+ * Average of a per-face score over the matched subjects' own faces.
+ * Other (non-target) faces in the frame do not affect the score.
+ */
+function averageSubjectScore(
+  scored: ScoredPhoto,
+  faceScore: (scored: ScoredPhoto, face: PhotoFace) => number,
+): number {
+  if (scored.subjectFaces.size === 0) return 0
+  let sum = 0
+  for (const face of scored.subjectFaces.values()) {
+    sum += faceScore(scored, face)
+  }
+  return sum / scored.subjectFaces.size
+}
+
+/**
+ * "Happy Memories" mode: picks the best smiles while keeping every child covered.
+ * Photos are ranked by the smile of the subject being served, not by other faces.
+ */
+export async function selectSmilePhotos(
+  sessionId: string,
+  targetClusters: FaceCluster[],
+  count: number,
+  burst: BurstOptions = {},
+): Promise<Photo[]> {
+  const db = await getDB()
+  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+
+  // Deduplicate burst photos before scoring
+  const deduplicated = deduplicateBurstPhotos(allPhotos, targetClusters, burst)
+  const burstSizes = burstGroupSizes(allPhotos, burst)
+
+  const scoredPhotos = buildScoredPhotos(deduplicated, targetClusters)
+
+  if (scoredPhotos.length === 0) return []
+
+  const smile = (_scored: ScoredPhoto, face: PhotoFace) => face.smileScore ?? 0
+  const selected = selectWithSubjectCoverage(
+    scoredPhotos.filter((p) => p.matched),
+    targetClusters,
+    count,
+    smile,
+    (scored) => averageSubjectScore(scored, smile),
+  )
+
+  return selected.map((p) => toSelectedPhoto(p, burstSizes))
+}
+
+export interface BestShotOptions {
+  ruleOfThirds?: boolean // Score position against thirds intersections instead of the centre
+  burst?: BurstOptions // How burst shots are grouped before selection
+}
+
+/**
+ * "Best Shot" mode: prefers photos where the subject is large and well placed
+ * (centred, or on a thirds intersection), keeping every child covered.
+ */
+export async function selectBestShotPhotos(
+  sessionId: string,
+  targetClusters: FaceCluster[],
+  count: number,
+  options: BestShotOptions = {},
+): Promise<Photo[]> {
+  const db = await getDB()
+  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+
+  // Deduplicate burst photos before scoring
+  const deduplicated = deduplicateBurstPhotos(allPhotos, targetClusters, options.burst)
+  const burstSizes = burstGroupSizes(allPhotos, options.burst)
+
+  const scoredPhotos = buildScoredPhotos(deduplicated, targetClusters)
+
+  if (scoredPhotos.length === 0) return []
+
+  const composition = (scored: ScoredPhoto, face: PhotoFace) =>
+    compositionScore(face.box, scored.photo.width, scored.photo.height, options)
+  const selected = selectWithSubjectCoverage(
+    scoredPhotos.filter((p) => p.matched),
+    targetClusters,
+    count,
+    composition,
+    (scored) => averageSubjectScore(scored, composition),
+  )
+
+  return selected.map((p) => toSelectedPhoto(p, burstSizes))
+}
+
+/**
+ * "Connection" mode: collects photos where every member of a combination
+ * (siblings, parent and child, best friends...) appears together.
+ *
+ * Each iteration serves the combination with the fewest picks that still has
+ * candidates, so combinations stay balanced. Within a combination the next
+ * photo is the one farthest in time from that combination's previous picks
+ * (earliest first), which spreads each combination across the session.
+ * A photo that satisfies several combinations counts towards all of them.
+ */
+export async function selectConnectionPhotos(
+  sessionId: string,
+  combinations: FaceCluster[][],
+  count: number,
+  burst: BurstOptions = {},
+): Promise<Photo[]> {
+  const validCombinations = combinations.filter((combo) => combo.length > 0)
+  if (validCombinations.length === 0) return []
+
+  // Every cluster that takes part in at least one combination
+  const targetClusters = Array.from(
+    new Map(validCombinations.flat().map((c) => [c.id, c])).values(),
+  )
+
+  const db = await getDB()
+  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+
+  // Deduplicate burst photos before scoring
+  const deduplicated = deduplicateBurstPhotos(allPhotos, targetClusters, burst)
+  const burstSizes = burstGroupSizes(allPhotos, burst)
+
+  const scoredPhotos = buildScoredPhotos(deduplicated, targetClusters)
+
+  if (scoredPhotos.length === 0) return []
+
+  const satisfies = (scored: ScoredPhoto, combo: FaceCluster[]) =>
+    combo.every((c) => scored.subjectFaces.has(c.id))
+
+  const pool = scoredPhotos.filter((p) => validCombinations.some((combo) => satisfies(p, combo)))
+
+  const comboCounts = validCombinations.map(() => 0)
+  const comboTimestamps: number[][] = validCombinations.map(() => [])
+  const selected: ScoredPhoto[] = []
+
+  while (selected.length < count && pool.length > 0) {
+    // Combination with the fewest picks that still has candidates
+    let comboIndex = -1
+    for (let i = 0; i < validCombinations.length; i++) {
+      if (!pool.some((p) => satisfies(p, validCombinations[i]!))) continue
+      if (comboIndex === -1 || comboCounts[i]! < comboCounts[comboIndex]!) comboIndex = i
+    }
+    if (comboIndex === -1) break
+
+    const combo = validCombinations[comboIndex]!
+    const picked = comboTimestamps[comboIndex]!
+
+    let bestIndex = -1
+    let bestGap = -Infinity
+    for (let j = 0; j < pool.length; j++) {
+      const candidate = pool[j]!
+      if (!satisfies(candidate, combo)) continue
+
+      // Distance to the closest already-picked photo of this combination.
+      // With no picks yet, prefer the earliest photo.
+      const gap =
+        picked.length === 0
+          ? -candidate.photo.timestamp
+          : Math.min(...picked.map((t) => Math.abs(candidate.photo.timestamp - t)))
+      if (gap > bestGap) {
+        bestGap = gap
+        bestIndex = j
+      }
+    }
+
+    const best = pool.splice(bestIndex, 1)[0]!
+    selected.push(best)
+    validCombinations.forEach((c, i) => {
+      if (satisfies(best, c)) {
+        comboCounts[i]!++
+        comboTimestamps[i]!.push(best.photo.timestamp)
+      }
+    })
+  }
+
+  // Sort selected photos by time for the album
+  selected.sort((a, b) => a.photo.timestamp - b.photo.timestamp)
+
+  return selected.map((p) => toSelectedPhoto(p, burstSizes))
+}
+
+/**
+ * The session's photos a selection left out, each with why it wasn't picked, so the
+ * album step can answer "why not this one?". `targetClusters` are the people the
+ * selection was made for.
+ */
+export async function explainSkippedPhotos(
+  sessionId: string,
+  targetClusters: FaceCluster[],
+  selected: ReadonlyArray<Photo>,
+  burst: BurstOptions = {},
+): Promise<Photo[]> {
+  const db = await getDB()
+  const allPhotos = await db.getAllFromIndex('photos', 'by-session', sessionId)
+  const selectedIds = new Set(selected.map((p) => p.id))
+  const winners = similarShotWinners(allPhotos, selectedIds, burst)
+
+  return buildScoredPhotos(
+    allPhotos.filter((p) => !selectedIds.has(p.id)),
+    targetClusters,
+  )
+    .sort((a, b) => a.photo.timestamp - b.photo.timestamp)
+    .map((scored) => ({
+      ...scored.photo,
+      matchedSubjects: scored.subjects,
+      skipReason: explainSkip(scored, winners),
+    }))
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  registerSelectionStrategy,
+  getSelectionStrategy,
+  getSelectionStrategies,
+  getDefaultOptions,
+  hasRequiredInput,
+  type SelectionContext,
+  type SelectionStrategy,
+} from './selection-strategies'
+import * as selection from './selection-algorithm'
+import type { Photo, FaceCluster } from './types'
+
+// Mock dependencies
+vi.mock('./selection-algorithm', () => ({
+  DEFAULT_BALANCE_TOLERANCE: 1,
+  selectGroupBalancedPhotosWithReport: vi.fn(),
+  selectGrowthPhotos: vi.fn(),
+  selectSmilePhotos: vi.fn(),
+  selectConnectionPhotos: vi.fn(),
+  selectBestShotPhotos: vi.fn(),
+}))
+
+describe('selection-strategies', () => {
+  const clusterA = { id: 'A' } as unknown as FaceCluster
+  const clusterB = { id: 'B' } as unknown as FaceCluster
+  const photos = [{ id: 'p1' }] as unknown as Photo[]
+
+  const makeContext = (overrides: Partial<SelectionContext> = {}): SelectionContext => ({
+    sessionId: 'session1',
+    clusters: [clusterA, clusterB],
+    combinations: [],
+    count: 10,
+    weights: {
+      smile: 0,
+      faceScore: 0,
+      orientation: 0,
+      blur: 0,
+      exposure: 0,
+      eyesOpen: 0,
+      composition: 0,
+      timeSpread: 0,
+      groupBalance: 0.5,
+    },
+    options: {},
+    quotas: {},
+    eventLimits: {},
+    burst: { mode: 'adaptive' },
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should register the built-in strategies in display order', () => {
+    const ids = getSelectionStrategies().map((s) => s.id)
+    expect(ids.slice(0, 5)).toEqual(['group', 'growth', 'smile', 'connection', 'best-shot'])
+  })
+
+  it('should delegate group mode with weights, tolerance, quotas and event limits', async () => {
+    const report = {
+      solver: 'optimal' as const,
+      feasible: true,
+      tolerance: 2,
+      counts: { A: 1, B: 1 },
+      missingSubjects: [],
+      quotas: [],
+    }
+    vi.mocked(selection.selectGroupBalancedPhotosWithReport).mockResolvedValue({ photos, report })
+    const strategy = getSelectionStrategy('group')!
+    const quotas = { A: { min: 3 } }
+    const eventLimits = { sports: { max: 5 } }
+    const context = makeContext({
+      options: { tolerance: 2, timeUnit: 'event' },
+      quotas,
+      eventLimits,
+    })
+
+    expect(getDefaultOptions(strategy)).toEqual({ tolerance: 1, timeUnit: 'month' })
+
+    const result = await strategy.select(context)
+
+    expect(result).toEqual({ photos, report })
+    expect(selection.selectGroupBalancedPhotosWithReport).toHaveBeenCalledWith(
+      'session1',
+      [clusterA, clusterB],
+      10,
+      context.weights,
+      { tolerance: 2, quotas, timeUnit: 'event', eventLimits, burst: { mode: 'adaptive' } },
+    )
+  })
+
+  it('should pass only the first cluster to growth mode', async () => {
+    vi.mocked(selection.selectGrowthPhotos).mockResolvedValue(photos)
+
+    const result = await getSelectionStrategy('growth')!.select(makeContext())
+
+    expect(result).toEqual({ photos })
+    expect(selection.selectGrowthPhotos).toHaveBeenCalledWith('session1', clusterA, 10, {
+      mode: 'adaptive',
+    })
+  })
+
+  it('should pass combinations to connection mode', async () => {
+    vi.mocked(selection.selectConnectionPhotos).mockResolvedValue(photos)
+    const combinations = [[clusterA, clusterB]]
+
+    await getSelectionStrategy('connection')!.select(makeContext({ combinations }))
+
+    expect(selection.selectConnectionPhotos).toHaveBeenCalledWith('session1', combinations, 10, {
+      mode: 'adaptive',
+    })
+  })
+
+  it('should pass strategy options to best shot mode', async () => {
+    vi.mocked(selection.selectBestShotPhotos).mockResolvedValue(photos)
+    const strategy = getSelectionStrategy('best-shot')!
+
+    expect(getDefaultOptions(strategy)).toEqual({ ruleOfThirds: false })
+
+    await strategy.select(makeContext({ options: { ruleOfThirds: true } }))
+
+    expect(selection.selectBestShotPhotos).toHaveBeenCalledWith(
+      'session1',
+      [clusterA, clusterB],
+      10,
+      { ruleOfThirds: true, burst: { mode: 'adaptive' } },
+    )
+  })
+
+  it('should check required inputs', () => {
+    const group = getSelectionStrategy('group')!
+    const growth = getSelectionStrategy('growth')!
+    const connection = getSelectionStrategy('connection')!
+
+    expect(hasRequiredInput(group, makeContext())).toBe(true)
+    expect(hasRequiredInput(group, makeContext({ clusters: [] }))).toBe(false)
+    expect(hasRequiredInput(growth, makeContext({ clusters: [] }))).toBe(false)
+    expect(hasRequiredInput(growth, makeContext({ clusters: [clusterA] }))).toBe(true)
+    expect(hasRequiredInput(connection, makeContext())).toBe(false)
+    expect(
+      hasRequiredInput(connection, makeContext({ combinations: [[clusterA, clusterB]] })),
+    ).toBe(true)
+  })
+
+  it('should accept custom strategies', async () => {
+    const custom: SelectionStrategy = {
+      id: 'custom-test',
+      label: 'Custom',
+      description: 'Custom strategy',
+      icon: 'i-lucide-star',
+      input: 'clusters',
+      weights: [],
+      select: vi.fn().mockResolvedValue({ photos }),
+    }
+
+    registerSelectionStrategy(custom)
+
+    expect(getSelectionStrategy('custom-test')).toBe(custom)
+    expect(getSelectionStrategies().at(-1)).toBe(custom)
+    expect(await custom.select(makeContext())).toEqual({ photos })
+  })
+})
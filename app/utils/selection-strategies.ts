@@ -0,0 +1,244 @@
+import type { FaceCluster } from './types'
+import type { BurstOptions } from './burst-detection'
+import {
+  selectGroupBalancedPhotosWithReport,
+  selectGrowthPhotos,
+  selectSmilePhotos,
+  selectConnectionPhotos,
+  selectBestShotPhotos,
+  DEFAULT_BALANCE_TOLERANCE,
+  type SelectionResult,
+  type EventLimits,
+  type SelectionWeights,
+  type SubjectQuota,
+} from './selection-algorithm'
+
+/**
+ * What a strategy needs from the album settings step:
+ *   - 'clusters':       one or more people
+ *   - 'single-cluster': exactly one person
+ *   - 'combinations':   groups of people that must appear together
+ */
+export type StrategyInput = 'clusters' | 'single-cluster' | 'combinations'
+
+/**
+ * A tunable weight shown in the "fine tune" panel.
+ * 'scale' is a 0-1 slider, 'balance' is the solo <-> group slider.
+ */
+export interface WeightField {
+  key: keyof SelectionWeights
+  label: string
+  kind: 'scale' | 'balance'
+}
+
+/**
+ * A strategy option: a checkbox (e.g. rule of thirds), a small number input
+ * (e.g. balance tolerance) or a choice list. Shown next to the mode picker,
+ * or in the "fine tune" panel with placement 'weights'.
+ */
+interface StrategyOptionBase {
+  key: string
+  label: string
+  placement?: 'settings' | 'weights' // Default 'settings'
+}
+
+export type StrategyOption = StrategyOptionBase &
+  (
+    | { type: 'boolean'; default: boolean }
+    | { type: 'number'; default: number; min: number; max: number }
+    | { type: 'select'; default: string; choices: { value: string; label: string }[] }
+  )
+
+export type StrategyOptionValues = Record<string, boolean | number | string>
+
+export interface SelectionContext {
+  sessionId: string
+  clusters: FaceCluster[]
+  combinations: FaceCluster[][]
+  count: number
+  weights: SelectionWeights
+  options: StrategyOptionValues
+  quotas: Record<string, SubjectQuota> // Cluster id -> quota
+  eventLimits: Record<string, EventLimits> // Event id -> picks allowed
+  burst: BurstOptions // How burst shots are grouped (app settings)
+}
+
+export interface SelectionStrategy {
+  id: string
+  label: string
+  description: string // Lines separated by '\n'
+  icon: string // Icon class, e.g. 'i-lucide-users'
+  input: StrategyInput
+  weights: WeightField[] // Weights this strategy reacts to; empty hides the panel
+  options?: StrategyOption[]
+  supportsQuotas?: boolean // Shows the per-person count settings
+  supportsEventLimits?: boolean // Shows the per-event count settings
+  select(context: SelectionContext): Promise<SelectionResult>
+}
+
+export const WEIGHT_FIELDS = {
+  smile: { key: 'smile', label: '笑顔重視', kind: 'scale' },
+  faceScore: { key: 'faceScore', label: '顔のはっきり度', kind: 'scale' },
+  orientation: { key: 'orientation', label: 'カメラ目線', kind: 'scale' },
+  blur: { key: 'blur', label: 'ブレてない写真', kind: 'scale' },
+  exposure: { key: 'exposure', label: 'ちょうどいい明るさ', kind: 'scale' },
+  eyesOpen: { key: 'eyesOpen', label: '目つぶりを避ける', kind: 'scale' },
+  composition: { key: 'composition', label: '大きく真ん中に', kind: 'scale' },
+  timeSpread: { key: 'timeSpread', label: '時期をばらけさせる', kind: 'scale' },
+  groupBalance: { key: 'groupBalance', label: 'グループバランス', kind: 'balance' },
+} as const satisfies Record<keyof SelectionWeights, WeightField>
+
+const strategies = new Map<string, SelectionStrategy>()
+
+/**
+ * Registers a selection strategy. Registering an existing id replaces it,
+ * so custom builds can override a built-in mode.
+ */
+export function registerSelectionStrategy(strategy: SelectionStrategy): void {
+  strategies.set(strategy.id, strategy)
+}
+
+export function getSelectionStrategy(id: string): SelectionStrategy | undefined {
+  return strategies.get(id)
+}
+
+/**
+ * All registered strategies, in registration order.
+ */
+export function getSelectionStrategies(): SelectionStrategy[] {
+  return Array.from(strategies.values())
+}
+
+/**
+ * Default values for a strategy's options.
+ */
+export function getDefaultOptions(strategy: SelectionStrategy): StrategyOptionValues {
+  return Object.fromEntries((strategy.options ?? []).map((o) => [o.key, o.default]))
+}
+
+/**
+ * Whether the context has what the strategy needs to run.
+ */
+export function hasRequiredInput(strategy: SelectionStrategy, context: SelectionContext): boolean {
+  switch (strategy.input) {
+    case 'combinations':
+      return context.combinations.length > 0
+    default:
+      // 'single-cluster' strategies use the first selected person
+      return context.clusters.length > 0
+  }
+}
+
+// ----------------------------------------------------------------------
+// Built-in strategies
+// ----------------------------------------------------------------------
+
+registerSelectionStrategy({
+  id: 'group',
+  label: 'みんなバランスよく',
+  description: '複数の子を均等に選びます。\nクラスのアルバムなどに最適です。',
+  icon: 'i-lucide-users',
+  input: 'clusters',
+  weights: [
+    WEIGHT_FIELDS.smile,
+    WEIGHT_FIELDS.orientation,
+    WEIGHT_FIELDS.blur,
+    WEIGHT_FIELDS.exposure,
+    WEIGHT_FIELDS.eyesOpen,
+    WEIGHT_FIELDS.composition,
+    WEIGHT_FIELDS.timeSpread,
+    WEIGHT_FIELDS.groupBalance,
+  ],
+  options: [
+    {
+      key: 'tolerance',
+      label: '写る回数の差をこの枚数以内にする',
+      type: 'number',
+      default: DEFAULT_BALANCE_TOLERANCE,
+      min: 0,
+      max: 10,
+    },
+    {
+      key: 'timeUnit',
+      label: '「時期をばらけさせる」の区切り',
+      placement: 'weights',
+      type: 'select',
+      default: 'month',
+      choices: [
+        { value: 'month', label: '月ごと' },
+        { value: 'event', label: 'イベントごと' },
+      ],
+    },
+  ],
+  supportsQuotas: true,
+  supportsEventLimits: true,
+  select: (ctx) =>
+    selectGroupBalancedPhotosWithReport(ctx.sessionId, ctx.clusters, ctx.count, ctx.weights, {
+      tolerance: Number(ctx.options.tolerance ?? DEFAULT_BALANCE_TOLERANCE),
+      quotas: ctx.quotas,
+      timeUnit: ctx.options.timeUnit === 'event' ? 'event' : 'month',
+      eventLimits: ctx.eventLimits,
+      burst: ctx.burst,
+    }),
+})
+
+registerSelectionStrategy({
+  id: 'growth',
+  label: 'ひとりの成長記録',
+  description: '1人の写真を時間順に選びます。\n個人の成長記録に最適です。',
+  icon: 'i-lucide-sprout',
+  input: 'single-cluster',
+  weights: [],
+  select: async (ctx) => {
+    const target = ctx.clusters[0]
+    if (!target) return { photos: [] }
+    return { photos: await selectGrowthPhotos(ctx.sessionId, target, ctx.count, ctx.burst) }
+  },
+})
+
+registerSelectionStrategy({
+  id: 'smile',
+  label: 'ハッピーメモリーズ',
+  description: 'いちばんの笑顔を選びます。\n全員が1枚以上入るように調整します。',
+  icon: 'i-lucide-smile',
+  input: 'clusters',
+  weights: [],
+  select: async (ctx) => ({
+    photos: await selectSmilePhotos(ctx.sessionId, ctx.clusters, ctx.count, ctx.burst),
+  }),
+})
+
+registerSelectionStrategy({
+  id: 'connection',
+  label: 'いっしょの思い出',
+  description: '兄弟や親子、なかよしの組み合わせで\n一緒に写っている写真を選びます。',
+  icon: 'i-lucide-heart-handshake',
+  input: 'combinations',
+  weights: [],
+  select: async (ctx) => ({
+    photos: await selectConnectionPhotos(ctx.sessionId, ctx.combinations, ctx.count, ctx.burst),
+  }),
+})
+
+registerSelectionStrategy({
+  id: 'best-shot',
+  label: 'ベストショット',
+  description: '主役が大きく、真ん中に写る写真を選びます。\n全員が1枚以上入るように調整します。',
+  icon: 'i-lucide-focus',
+  input: 'clusters',
+  weights: [],
+  options: [
+    {
+      key: 'ruleOfThirds',
+      label: '真ん中ではなく「三分割構図」の位置を優先する',
+      type: 'boolean',
+      default: false,
+    },
+  ],
+  select: async (ctx) => ({
+    photos: await selectBestShotPhotos(ctx.sessionId, ctx.clusters, ctx.count, {
+      ruleOfThirds: ctx.options.ruleOfThirds === true,
+      burst: ctx.burst,
+    }),
+  }),
+})
@@ -3,11 +3,17 @@ export interface Photo {
   sessionId: string // references ProcessingSession.id
   name: string
   relativePath: string
-  timestamp: number
+  timestamp: number // Capture instant (UTC ms), exact when the EXIF offset is known
+  originalTimestamp?: number // Recorded timestamp, set while a camera clock correction applies
   dateStr: string // ISO string
+  timezoneOffset?: number // Minutes east of UTC from EXIF OffsetTimeOriginal
+  cameraMake?: string
+  cameraModel?: string
+  cameraSerial?: string
   width?: number
   height?: number
   blurScore?: number // 0 (blurry) to 1 (sharp)
+  exposure?: PhotoExposure
   faces?: {
     descriptor: Float32Array
     box: { x: number; y: number; width: number; height: number }
@@ -16,6 +22,11 @@ export interface Photo {
     smileScore?: number // 0 to 1
     panScore?: number // -1 (left) to 1 (right), 0 is front
     tiltScore?: number // -1 (down) to 1 (up), 0 is front
+    rollScore?: number // -1 (counter-clockwise) to 1 (clockwise), 0 is upright
+    eyesOpenScore?: number // 0 (closed) to 1 (open), from eye aspect ratio
+    sharpnessScore?: number // 0 (blurry) to 1 (sharp), measured on the face crop
+    brightness?: number // Mean luminance of the face crop, 0 (black) to 1 (white)
+    completenessScore?: number // 0 (mostly hidden or cut off) to 1 (fully visible)
   }[]
   // We avoid storing full Blob in DB alongside metadata to keep it fast,
   // but might store thumbnail separately or just path if accessing via FileSystemHandle (in future).
@@ -23,8 +34,59 @@ export interface Photo {
   thumbnail?: Blob
   excluded?: boolean
   hash?: string
+  perceptualHash?: string // dHash as 16 hex chars, for near-duplicate detection
   detectionModel?: 'ssd' | 'tiny'
   matchedSubjects?: string[] // Added to track which selected subjects appear in this photo
+  selectionReason?: SelectionReason // Why the selector picked this photo (set on results only)
+  skipReason?: SkipReason // Why a selection left this photo out (set on skipped photos only)
+  eventId?: string // references PhotoEvent.id, set by event segmentation
+}
+
+/**
+ * Brightness histogram statistics of a whole photo, all 0-1.
+ */
+export interface PhotoExposure {
+  brightness: number // Mean luminance, 0 (black) to 1 (white)
+  shadowClipping: number // Share of crushed black pixels
+  highlightClipping: number // Share of blown-out white pixels
+  contrast: number // Spread between the 5th and 95th luminance percentile
+}
+
+/**
+ * Explanation attached to each selected photo, so the album step can show
+ * why it was chosen.
+ */
+export interface SelectionReason {
+  // Matched target subjects and face descriptor distance (lower = more certain)
+  subjects: { clusterId: string; distance: number }[]
+  // Averages over the matched faces (0-1), blur falls back to the photo-level score
+  quality: {
+    smile: number
+    orientation: number
+    faceScore: number
+    eyesOpen: number
+    blur?: number
+    exposure?: number
+  }
+  score?: number // Weighted quality score used for ranking (group mode)
+  // Estimated imbalance penalty after this photo (group mode). The solver picks a set, so
+  // this comes from replaying greedy picks over it, not from the moment of choosing.
+  balancePenalty?: number
+  burstSize: number // Photos in its burst / near-duplicate group; > 1 means it won over similar shots
+}
+
+/**
+ * Why a photo of the session was left out of a selection:
+ *   - 'no-faces':     no face was detected
+ *   - 'no-subject':   none of the chosen people is in it
+ *   - 'hidden-face':  chosen people are in it, but cut off or hidden
+ *   - 'similar-shot': a similar shot (`similarTo`) was picked instead
+ *   - 'outranked':    better or better balanced photos were picked for its people
+ */
+export interface SkipReason {
+  kind: 'no-faces' | 'no-subject' | 'hidden-face' | 'similar-shot' | 'outranked'
+  subjects: string[] // Chosen people recognised in it (cluster ids)
+  similarTo?: string // Id of the selected photo, for 'similar-shot'
 }
 
 export interface ProcessingSession {
@@ -33,14 +95,53 @@ export interface ProcessingSession {
   totalFiles: number
   processedCount: number
   status: 'scanning' | 'processing' | 'completed' | 'paused'
+  processedFileKeys?: string[] // Files done in an unfinished run ("path:size:lastModified"), to resume
+  cameraClockOffsets?: Record<string, number> // Clock correction in ms by camera key, also for photos added later
   createdAt: number
   updatedAt: number
 }
 
+/**
+ * A run of photos in a session without a long gap (e.g. sports day, excursion).
+ */
+export interface PhotoEvent {
+  id: string
+  sessionId: string // references ProcessingSession.id
+  label: string // e.g. "10月12日" or user assigned name
+  startTime: number
+  endTime: number
+  photoCount: number
+
+  // Per-event selection limits for the album (unset = no limit)
+  minPhotos?: number
+  maxPhotos?: number
+}
+
+/**
+ * A user correction to burst grouping, stored per photo.
+ */
+export interface BurstOverride {
+  photoId: string // references Photo.id
+  sessionId: string // references ProcessingSession.id
+  pinned?: boolean // Use this frame instead of the automatic winner of its burst
+  splitBefore?: boolean // Start a new burst at this photo
+  keepAll?: boolean // Keep every frame of this photo's burst
+}
+
+/**
+ * Running mean of a cluster's faces taken in one period (about a month).
+ */
+export interface ClusterPrototype {
+  periodStart: number // UTC ms
+  descriptor: Float32Array
+  count: number // Faces averaged into it
+}
+
 export interface FaceCluster {
   id: string
   label: string // e.g. "Person 1" or user assigned name
   descriptor: Float32Array // centroid or representative descriptor
+  prototypes?: ClusterPrototype[] // Per-period descriptors, oldest first
   photoIds: string[]
   thumbnail?: Blob // Face crop
 
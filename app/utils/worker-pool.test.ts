@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createWorkerPool, type WorkerPoolOptions } from './worker-pool'
+
+// Records posted messages; tests answer them through reply()
+class FakeWorker {
+  onmessage: ((e: MessageEvent) => void) | null = null
+  onerror: ((e: unknown) => void) | null = null
+  messages: { type: string; id?: string; payload?: unknown }[] = []
+  terminated = false
+
+  postMessage(message: { type: string; id?: string; payload?: unknown }) {
+    this.messages.push(message)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent)
+  }
+
+  get jobs() {
+    return this.messages.filter((m) => m.type === 'DETECT')
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('worker-pool', () => {
+  let workers: FakeWorker[]
+
+  const pool = (options: Partial<WorkerPoolOptions> = {}) =>
+    createWorkerPool({
+      size: 2,
+      createWorker: () => {
+        const worker = new FakeWorker()
+        workers.push(worker)
+        return worker as unknown as Worker
+      },
+      timeoutMs: 1000,
+      maxRetries: 1,
+      maxQueued: 10,
+      ...options,
+    })
+
+  const job = (payload: unknown) => () => Promise.resolve({ payload })
+
+  beforeEach(() => {
+    workers = []
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should spread jobs over the workers and queue the rest', async () => {
+    const p = pool({ initMessage: () => ({ type: 'INIT' }) })
+    const results = [1, 2, 3].map((n) => p.run<number>('DETECT', job(n)))
+    await flush()
+
+    expect(workers.map((w) => w.jobs.map((m) => m.payload))).toEqual([[1], [2]])
+    expect(workers.every((w) => w.messages[0]!.type === 'INIT')).toBe(true)
+
+    const first = workers[0]!.jobs[0]!
+    workers[0]!.reply({ type: 'DETECT_SUCCESS', id: first.id, payload: 'one' })
+    await flush()
+
+    expect(await results[0]).toBe('one')
+    expect(workers[0]!.jobs.map((m) => m.payload)).toEqual([1, 3])
+  })
+
+  it('should make callers wait while the queue is full', async () => {
+    const onProgress = vi.fn()
+    const p = pool({ size: 1, maxQueued: 1, onProgress })
+    // 1 runs, 2 is queued, 3 has to wait for room
+    const results = [1, 2, 3].map((n) => p.run('DETECT', job(n)).catch(() => 'terminated'))
+    await flush()
+
+    expect(onProgress).toHaveBeenLastCalledWith({ queued: 1, running: 1, completed: 0, failed: 0 })
+
+    const worker = workers[0]!
+    worker.reply({ type: 'DETECT_SUCCESS', id: worker.jobs[0]!.id })
+    await flush()
+
+    expect(worker.jobs.map((m) => m.payload)).toEqual([1, 2])
+    expect(onProgress).toHaveBeenLastCalledWith({ queued: 1, running: 1, completed: 1, failed: 0 })
+
+    p.terminate()
+    expect(await Promise.all(results)).toEqual([undefined, 'terminated', 'terminated'])
+  })
+
+  it('should restart a timed out worker and retry the job', async () => {
+    vi.useFakeTimers()
+    const p = pool({ size: 1 })
+    const result = p.run('DETECT', job('slow'))
+    await vi.advanceTimersByTimeAsync(0)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(workers[0]!.terminated).toBe(true)
+    expect(workers[1]!.jobs.map((m) => m.payload)).toEqual(['slow'])
+
+    workers[1]!.reply({ type: 'DETECT_SUCCESS', id: workers[1]!.jobs[0]!.id, payload: 'ok' })
+    expect(await result).toBe('ok')
+  })
+
+  it('should fail the job once retries are used up', async () => {
+    vi.useFakeTimers()
+    const p = pool({ size: 1, maxRetries: 1 })
+    const result = p.run('DETECT', job('stuck'))
+    const assertion = expect(result).rejects.toThrow('timed out')
+
+    await vi.advanceTimersByTimeAsync(2000)
+    await assertion
+    expect(workers).toHaveLength(3) // Original plus two restarts
+  })
+
+  it('should close the bitmaps of an attempt abandoned while preparing', async () => {
+    const p = pool({ size: 1, maxRetries: 1 })
+    // Each attempt prepares its own bitmap and waits until the test lets it finish
+    const attempts: { bitmap: { close: () => void }; ready: () => void }[] = []
+    const result = p.run('DETECT', () => {
+      const bitmap = { close: vi.fn() }
+      return new Promise((resolve) => {
+        attempts.push({
+          bitmap,
+          ready: () =>
+            resolve({ payload: attempts.length, transfer: [bitmap as unknown as ImageBitmap] }),
+        })
+      })
+    })
+    await flush()
+
+    workers[0]!.onerror?.(new Event('error'))
+    await flush()
+    expect(attempts).toHaveLength(2) // Retried on the new worker
+
+    attempts[0]!.ready()
+    attempts[1]!.ready()
+    await flush()
+
+    expect(attempts[0]!.bitmap.close).toHaveBeenCalled()
+    expect(attempts[1]!.bitmap.close).not.toHaveBeenCalled()
+    expect(workers[0]!.jobs).toEqual([])
+    expect(workers[1]!.jobs).toHaveLength(1)
+
+    workers[1]!.reply({ type: 'DETECT_SUCCESS', id: workers[1]!.jobs[0]!.id, payload: 'ok' })
+    expect(await result).toBe('ok')
+  })
+
+  it('should give up workers that keep crashing and fail the waiting jobs', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const p = pool({ size: 1, maxRetries: 10, maxCrashes: 2 })
+    const results = [1, 2].map((n) => p.run('DETECT', job(n)))
+    const assertions = results.map((r) => expect(r).rejects.toThrow('keep crashing'))
+    await flush()
+
+    // A worker whose script fails crashes again right after every restart
+    for (let i = 0; i < 5; i++) workers.at(-1)!.onerror?.(new Event('error'))
+    await Promise.all(assertions)
+
+    expect(workers).toHaveLength(3) // Original plus two restarts
+    await expect(p.run('DETECT', job(3))).rejects.toThrow('keep crashing')
+  })
+
+  it('should only count crashes in a row', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const p = pool({ size: 1, maxCrashes: 1 })
+    for (let n = 0; n < 3; n++) {
+      const result = p.run('DETECT', job(n))
+      await flush()
+      workers.at(-1)!.onerror?.(new Event('error'))
+      await flush()
+      const worker = workers.at(-1)!
+      worker.reply({ type: 'DETECT_SUCCESS', id: worker.jobs.at(-1)!.id, payload: n })
+      expect(await result).toBe(n)
+    }
+  })
+
+  it('should fail right away when the worker reports an error', async () => {
+    const p = pool({ size: 1 })
+    const result = p.run('DETECT', job('bad'))
+    await flush()
+
+    workers[0]!.reply({ type: 'ERROR', id: workers[0]!.jobs[0]!.id, error: 'decode failed' })
+
+    await expect(result).rejects.toBe('decode failed')
+    expect(workers).toHaveLength(1)
+  })
+
+  it('should aggregate progress and forward other messages', async () => {
+    const onProgress = vi.fn()
+    const onMessage = vi.fn()
+    const p = pool({ onProgress, onMessage })
+    const results = [1, 2, 3].map((n) => p.run('DETECT', job(n)))
+    await flush()
+
+    expect(onProgress).toHaveBeenLastCalledWith({ queued: 1, running: 2, completed: 0, failed: 0 })
+
+    workers[1]!.reply({ type: 'LOADING_PROGRESS', payload: { message: '...' } })
+    expect(onMessage).toHaveBeenCalledWith({
+      type: 'LOADING_PROGRESS',
+      payload: { message: '...' },
+    })
+
+    for (const worker of workers) {
+      worker.reply({ type: 'DETECT_SUCCESS', id: worker.jobs[0]!.id })
+    }
+    await flush()
+    workers[0]!.reply({ type: 'ERROR', id: workers[0]!.jobs[1]!.id, error: 'x' })
+    await Promise.allSettled(results)
+
+    expect(onProgress).toHaveBeenLastCalledWith({ queued: 0, running: 0, completed: 2, failed: 1 })
+  })
+})
@@ -0,0 +1,236 @@
+export interface WorkerPoolProgress {
+  queued: number // Waiting for a free worker
+  running: number
+  completed: number
+  failed: number
+}
+
+export interface WorkerPoolOptions {
+  size: number
+  createWorker: () => Worker
+  initMessage?: () => unknown // Sent to every new worker, also after a restart
+  timeoutMs: number // Per attempt, the worker is restarted when it's exceeded
+  maxRetries: number // Extra attempts after a timeout or crash
+  maxCrashes?: number // Crashes in a row before a worker is given up (default 3)
+  maxQueued: number // run() waits while this many jobs are queued
+  onMessage?: (data: { type: string; payload?: unknown }) => void // Messages not tied to a job
+  onProgress?: (progress: WorkerPoolProgress) => void
+}
+
+interface PreparedMessage {
+  payload: unknown
+  transfer?: Transferable[]
+}
+
+// Builds the message payload of one attempt; transferables can't be reused for a retry
+export type JobPreparer = () => Promise<PreparedMessage>
+
+export interface WorkerPool {
+  readonly size: number
+  run<T>(type: string, prepare: JobPreparer): Promise<T>
+  broadcast(message: unknown): void
+  terminate(): void
+}
+
+interface Job {
+  id: string
+  type: string
+  prepare: JobPreparer
+  attempts: number
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+interface Slot {
+  worker: Worker
+  job: Job | null
+  timer?: ReturnType<typeof setTimeout>
+  crashes: number // In a row, reset once the worker answers a job
+  dead: boolean // Kept crashing (e.g. its script fails to load), not replaced anymore
+}
+
+const DEFAULT_MAX_CRASHES = 3
+
+/**
+ * Runs jobs on a fixed number of workers.
+ *
+ * Workers answer a job with `${type}_SUCCESS` or `ERROR` and its id. A reported ERROR
+ * fails the job right away (the input is bad), while a timeout or crash restarts the
+ * worker and queues the job again until maxRetries is used up. A worker that keeps
+ * crashing is given up; once all are, every waiting job fails.
+ */
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  const slots: Slot[] = []
+  const queue: Job[] = []
+  const roomWaiters: (() => void)[] = []
+  let nextId = 0
+  let completed = 0
+  let failed = 0
+  let terminated = false
+  let broken: Error | null = null // Every worker was given up
+
+  const report = () => {
+    options.onProgress?.({
+      queued: queue.length,
+      running: slots.filter((s) => s.job).length,
+      completed,
+      failed,
+    })
+  }
+
+  const settle = (slot: Slot, job: Job, error: unknown, value?: unknown) => {
+    clearTimeout(slot.timer)
+    slot.job = null
+    slot.crashes = 0
+    if (error === undefined) {
+      completed++
+      job.resolve(value)
+    } else {
+      failed++
+      job.reject(error)
+    }
+    dispatch()
+  }
+
+  // Timeouts and crashes may leave the worker in any state, so it is replaced
+  const restart = (slot: Slot, reason: string) => {
+    const job = slot.job
+    clearTimeout(slot.timer)
+    slot.worker.terminate()
+    slot.job = null
+    // Crashes without a job repeat forever when the script itself fails, so they're capped
+    if (reason === 'crashed' && ++slot.crashes > (options.maxCrashes ?? DEFAULT_MAX_CRASHES)) {
+      console.error(`Worker crashed ${slot.crashes} times in a row, giving it up`)
+      slot.dead = true
+    } else {
+      slot.worker = options.createWorker()
+      attach(slot)
+    }
+
+    if (job) {
+      if (job.attempts <= options.maxRetries) {
+        console.warn(`Worker job ${job.id} ${reason}, retrying`)
+        queue.unshift(job)
+      } else {
+        failed++
+        job.reject(new Error(`Worker job ${reason}`))
+      }
+    }
+    if (slots.every((s) => s.dead)) giveUp()
+    dispatch()
+  }
+
+  const giveUp = () => {
+    broken = new Error('Workers keep crashing')
+    queue.splice(0).forEach((job) => {
+      failed++
+      job.reject(broken)
+    })
+    roomWaiters.splice(0).forEach((wake) => wake())
+  }
+
+  const attach = (slot: Slot) => {
+    const worker = slot.worker
+    worker.onmessage = (e: MessageEvent) => {
+      const { type, id, payload, error } = e.data
+      const job = slot.job
+      if (job && id === job.id && slot.worker === worker) {
+        if (type === `${job.type}_SUCCESS`) settle(slot, job, undefined, payload)
+        else if (type === 'ERROR') settle(slot, job, error ?? new Error('Worker error'))
+        return
+      }
+      options.onMessage?.(e.data)
+    }
+    worker.onerror = (e) => {
+      console.error('Worker error event:', e)
+      if (slot.worker === worker) restart(slot, 'crashed')
+    }
+    const init = options.initMessage?.()
+    if (init !== undefined) worker.postMessage(init)
+  }
+
+  // A prepared message that is never posted still holds its image bitmaps
+  const release = (message: PreparedMessage) => {
+    message.transfer?.forEach((item) => (item as Partial<ImageBitmap>).close?.())
+  }
+
+  const start = async (slot: Slot, job: Job) => {
+    slot.job = job
+    const attempt = ++job.attempts
+    // A restart while preparing abandons this attempt, the job may be running again already
+    const abandoned = () => slot.job !== job || job.attempts !== attempt
+    let message: PreparedMessage
+    try {
+      message = await job.prepare()
+    } catch (err) {
+      if (!abandoned()) settle(slot, job, err)
+      return
+    }
+    if (abandoned()) {
+      release(message)
+      return
+    }
+    slot.timer = setTimeout(() => restart(slot, 'timed out'), options.timeoutMs)
+    slot.worker.postMessage(
+      { type: job.type, id: job.id, payload: message.payload },
+      message.transfer ?? [],
+    )
+  }
+
+  const dispatch = () => {
+    if (terminated) return
+    for (const slot of slots) {
+      if (slot.dead || slot.job || queue.length === 0) continue
+      void start(slot, queue.shift()!)
+      roomWaiters.shift()?.()
+    }
+    report()
+  }
+
+  for (let i = 0; i < options.size; i++) {
+    const slot: Slot = { worker: options.createWorker(), job: null, crashes: 0, dead: false }
+    attach(slot)
+    slots.push(slot)
+  }
+
+  return {
+    size: options.size,
+
+    async run<T>(type: string, prepare: JobPreparer): Promise<T> {
+      // Backpressure: callers wait instead of piling up jobs
+      while (queue.length >= options.maxQueued && !terminated && !broken) {
+        await new Promise<void>((resolve) => roomWaiters.push(resolve))
+      }
+      if (terminated) throw new Error('Worker pool terminated')
+      if (broken) throw broken
+
+      return new Promise<T>((resolve, reject) => {
+        queue.push({
+          id: `job-${nextId++}`,
+          type,
+          prepare,
+          attempts: 0,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        })
+        dispatch()
+      })
+    },
+
+    broadcast(message: unknown) {
+      slots.forEach((slot) => slot.worker.postMessage(message))
+    },
+
+    terminate() {
+      terminated = true
+      for (const slot of slots) {
+        clearTimeout(slot.timer)
+        slot.worker.terminate()
+        slot.job?.reject(new Error('Worker pool terminated'))
+        slot.job = null
+      }
+      queue.splice(0).forEach((job) => job.reject(new Error('Worker pool terminated')))
+      roomWaiters.splice(0).forEach((wake) => wake())
+    },
+  }
+}